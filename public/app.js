@@ -61,6 +61,7 @@ function createApi(token) {
     get: (path) => request("GET", path, undefined, token),
     post: (path, body) => request("POST", path, body, token),
     put: (path, body) => request("PUT", path, body, token),
+    del: (path) => request("DELETE", path, undefined, token),
   };
 }
 
@@ -106,6 +107,923 @@ function Sidebar({ activeTab, onTabChange }) {
   );
 }
 
+// --- Flow runner helpers ---
+
+// Forms (Flow JSON < v4) just wrap components; the runner renders them flat
+function flattenFlowComponents(children) {
+  const out = [];
+  (children || []).forEach((c) => {
+    if (c && c.type === "Form") {
+      out.push(...flattenFlowComponents(c.children));
+    } else if (c) {
+      out.push(c);
+    }
+  });
+  return out;
+}
+
+// Resolves ${form.x} / ${data.x} bindings against the current screen
+function resolveFlowValue(value, ctx) {
+  if (typeof value === "string") {
+    const exact = value.match(/^\$\{(form|data)\.([\w-]+)\}$/);
+    if (exact) return ctx[exact[1]][exact[2]];
+    return value.replace(/\$\{(form|data)\.([\w-]+)\}/g, (_m, kind, key) => {
+      const v = ctx[kind][key];
+      return v === undefined || v === null ? "" : String(v);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => resolveFlowValue(v, ctx));
+  if (value && typeof value === "object") {
+    const out = {};
+    Object.keys(value).forEach((k) => {
+      out[k] = resolveFlowValue(value[k], ctx);
+    });
+    return out;
+  }
+  return value;
+}
+
+const FLOW_INPUT_TYPES = {
+  number: "number",
+  email: "email",
+  password: "password",
+  passcode: "password",
+  phone: "tel",
+};
+
+// Screen data declares `__example__` values; use them as defaults
+function exampleScreenData(screen) {
+  const data = {};
+  Object.entries((screen && screen.data) || {}).forEach(([key, schema]) => {
+    if (schema && typeof schema === "object" && "__example__" in schema) {
+      data[key] = schema.__example__;
+    }
+  });
+  return data;
+}
+
+function FlowRunner({ api, sender }) {
+  const [flows, setFlows] = useState([]);
+  const [flowId, setFlowId] = useState("");
+  const [flow, setFlow] = useState(null);
+  const [flowToken, setFlowToken] = useState("sandbox-flow-token");
+  const [contextMessageId, setContextMessageId] = useState("");
+  const [screenId, setScreenId] = useState(null);
+  const [screenData, setScreenData] = useState({});
+  const [formValues, setFormValues] = useState({});
+  const [history, setHistory] = useState([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.get("/api/flows").then((res) => {
+      if (res.ok) setFlows(res.data.flows || []);
+    });
+  }, [api]);
+
+  const screens = (flow && flow.flowJson && flow.flowJson.screens) || [];
+  const screen = screens.find((s) => s.id === screenId) || null;
+
+  const goTo = (nextId, data, pushHistory) => {
+    const next = screens.find((s) => s.id === nextId);
+    if (!next) {
+      showToast(`Screen ${nextId} not found in flow JSON`, "error");
+      return;
+    }
+    if (pushHistory && screen) {
+      setHistory((h) => [...h, { screenId, screenData, formValues }]);
+    }
+    setScreenId(nextId);
+    setScreenData({ ...exampleScreenData(next), ...(data || {}) });
+    setFormValues({});
+  };
+
+  const callEndpoint = async (action, extra) => {
+    const res = await api.post("/simulate/flows/endpoint", {
+      phoneNumberId: sender.phoneId,
+      flowId: flow.id,
+      action,
+      flowToken,
+      ...extra,
+    });
+    if (!res.ok || !res.data.ok) {
+      const errors =
+        (res.data && res.data.errors && res.data.errors.join("; ")) ||
+        (res.data && res.data.error) ||
+        "Unknown error";
+      showToast(`Flow endpoint failed: ${errors}`, "error");
+      return null;
+    }
+    return res.data.response;
+  };
+
+  const handleStart = async () => {
+    if (!flowId) return;
+    setBusy(true);
+    try {
+      const res = await api.get(`/api/flows/${flowId}`);
+      if (!res.ok || !res.data.flowJson) {
+        showToast("Flow has no valid flow JSON uploaded", "error");
+        return;
+      }
+      const loaded = res.data;
+      const firstScreens = loaded.flowJson.screens || [];
+      setFlow(loaded);
+      setHistory([]);
+      setFormValues({});
+
+      // Endpoint-powered flows get their first screen from INIT
+      if (loaded.endpointUri && loaded.dataApiVersion) {
+        const init = await api.post("/simulate/flows/endpoint", {
+          phoneNumberId: sender.phoneId,
+          flowId: loaded.id,
+          action: "INIT",
+          flowToken,
+        });
+        if (init.ok && init.data.ok && init.data.response.screen) {
+          const next = firstScreens.find(
+            (s) => s.id === init.data.response.screen
+          );
+          setScreenId(init.data.response.screen);
+          setScreenData({
+            ...exampleScreenData(next),
+            ...(init.data.response.data || {}),
+          });
+          return;
+        }
+        showToast("INIT failed; starting from the first screen", "error");
+      }
+
+      const first = firstScreens[0];
+      setScreenId(first ? first.id : null);
+      setScreenData(exampleScreenData(first));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const complete = async (values) => {
+    const res = await api.post("/simulate/interactive/flow-completed", {
+      from: sender.from,
+      phoneNumberId: sender.phoneId || undefined,
+      displayPhoneNumber: sender.displayPhoneNumber,
+      flowId: flow.id,
+      flowName: flow.name,
+      flowToken,
+      responseJson: values || {},
+      contextMessageId: contextMessageId || undefined,
+    });
+    if (res.ok) {
+      showToast("Flow completed, nfm_reply sent!", "success");
+      setScreenId(null);
+      setFlow(null);
+    } else {
+      const msg = res.data && res.data.error ? res.data.error : "Unknown error";
+      showToast(`Failed: ${msg}`, "error");
+    }
+  };
+
+  const handleAction = async (action) => {
+    if (!action) return;
+    const components = flattenFlowComponents(screen.layout.children);
+    const missing = components.find(
+      (c) =>
+        c.required === true &&
+        c.name &&
+        (formValues[c.name] === undefined ||
+          formValues[c.name] === "" ||
+          (Array.isArray(formValues[c.name]) && !formValues[c.name].length))
+    );
+    if (missing) {
+      showToast(`${missing.label || missing.name} is required`, "error");
+      return;
+    }
+
+    const ctx = { form: formValues, data: screenData };
+    const payload = resolveFlowValue(action.payload || {}, ctx);
+    setBusy(true);
+    try {
+      if (action.name === "navigate") {
+        goTo(action.next && action.next.name, payload, true);
+      } else if (action.name === "complete") {
+        await complete(payload);
+      } else if (action.name === "data_exchange") {
+        const response = await callEndpoint("data_exchange", {
+          screen: screenId,
+          data: payload,
+        });
+        if (!response) return;
+        if (response.screen === "SUCCESS") {
+          const params =
+            (response.data &&
+              response.data.extension_message_response &&
+              response.data.extension_message_response.params) ||
+            {};
+          await complete(params);
+        } else {
+          goTo(response.screen, response.data, true);
+        }
+      } else {
+        showToast(`Action ${action.name} is not supported`, "error");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBack = () => {
+    const prev = history[history.length - 1];
+    if (!prev) return;
+    setHistory((h) => h.slice(0, -1));
+    setScreenId(prev.screenId);
+    setScreenData(prev.screenData);
+    setFormValues(prev.formValues);
+  };
+
+  const setValue = (name, value) =>
+    setFormValues((v) => ({ ...v, [name]: value }));
+
+  const renderComponent = (c, index) => {
+    const ctx = { form: formValues, data: screenData };
+    const r = (v) => resolveFlowValue(v, ctx);
+    if (r(c.visible) === false) return null;
+    const key = c.name || `${c.type}-${index}`;
+    const label = r(c.label);
+    const text = Array.isArray(c.text) ? r(c.text).join("\n") : r(c.text);
+
+    switch (c.type) {
+      case "TextHeading":
+        return <h3 key={key}>{text}</h3>;
+      case "TextSubheading":
+        return <h4 key={key}>{text}</h4>;
+      case "TextBody":
+        return (
+          <p key={key} style={{ whiteSpace: "pre-wrap" }}>
+            {text}
+          </p>
+        );
+      case "TextCaption":
+        return (
+          <p key={key} style={{ fontSize: "0.8rem", opacity: 0.8 }}>
+            {text}
+          </p>
+        );
+      case "TextInput":
+      case "TextArea":
+      case "DatePicker": {
+        const inputType =
+          c.type === "DatePicker"
+            ? "date"
+            : FLOW_INPUT_TYPES[c["input-type"]] || "text";
+        return (
+          <div key={key}>
+            <label>
+              {label}
+              {c.required ? " *" : ""}
+            </label>
+            {c.type === "TextArea" ? (
+              <textarea
+                rows={3}
+                value={formValues[c.name] || ""}
+                onChange={(e) => setValue(c.name, e.target.value)}
+              />
+            ) : (
+              <input
+                type={inputType}
+                value={formValues[c.name] || ""}
+                onChange={(e) => setValue(c.name, e.target.value)}
+              />
+            )}
+            {c["helper-text"] && (
+              <div style={{ fontSize: "0.75rem", opacity: 0.7 }}>
+                {r(c["helper-text"])}
+              </div>
+            )}
+          </div>
+        );
+      }
+      case "Dropdown":
+        return (
+          <div key={key}>
+            <label>
+              {label}
+              {c.required ? " *" : ""}
+            </label>
+            <select
+              value={formValues[c.name] || ""}
+              onChange={(e) => setValue(c.name, e.target.value)}
+            >
+              <option value="">Select...</option>
+              {(r(c["data-source"]) || []).map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      case "RadioButtonsGroup":
+      case "CheckboxGroup": {
+        const multiple = c.type === "CheckboxGroup";
+        const current = formValues[c.name] || (multiple ? [] : "");
+        return (
+          <div key={key}>
+            <label>
+              {label}
+              {c.required ? " *" : ""}
+            </label>
+            {(r(c["data-source"]) || []).map((o) => (
+              <label
+                key={o.id}
+                style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+              >
+                <input
+                  type={multiple ? "checkbox" : "radio"}
+                  name={c.name}
+                  style={{ width: "auto", margin: 0 }}
+                  checked={
+                    multiple ? current.includes(o.id) : current === o.id
+                  }
+                  onChange={(e) =>
+                    setValue(
+                      c.name,
+                      multiple
+                        ? e.target.checked
+                          ? [...current, o.id]
+                          : current.filter((id) => id !== o.id)
+                        : o.id
+                    )
+                  }
+                />
+                {o.title}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case "OptIn":
+        return (
+          <label
+            key={key}
+            style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+          >
+            <input
+              type="checkbox"
+              style={{ width: "auto", margin: 0 }}
+              checked={Boolean(formValues[c.name])}
+              onChange={(e) => setValue(c.name, e.target.checked)}
+            />
+            {label}
+          </label>
+        );
+      case "Footer":
+        return (
+          <button
+            key={key}
+            type="button"
+            disabled={busy}
+            onClick={() => handleAction(c["on-click-action"])}
+          >
+            {label || "Continue"}
+          </button>
+        );
+      default:
+        return (
+          <div key={key} style={{ fontSize: "0.75rem", opacity: 0.7 }}>
+            [{c.type} is not rendered by the runner]
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="field-group active" data-for="flow">
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr 1fr",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <label htmlFor="flowSelect">Flow</label>
+          <select
+            id="flowSelect"
+            value={flowId}
+            onChange={(e) => setFlowId(e.target.value)}
+          >
+            <option value="">Select a flow...</option>
+            {flows.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name} ({f.status})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="flowToken">Flow Token</label>
+          <input
+            id="flowToken"
+            value={flowToken}
+            onChange={(e) => setFlowToken(e.target.value)}
+          />
+        </div>
+        <div>
+          <label htmlFor="flowContext">Flow Message ID (Optional)</label>
+          <input
+            id="flowContext"
+            value={contextMessageId}
+            onChange={(e) => setContextMessageId(e.target.value)}
+            placeholder="wamid..."
+          />
+        </div>
+      </div>
+      <button
+        type="button"
+        className="secondary"
+        disabled={!flowId || busy}
+        onClick={handleStart}
+      >
+        {screen ? "Restart Flow" : "Open Flow"}
+      </button>
+
+      {screen && (
+        <div className="card" style={{ marginTop: "1rem" }}>
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+            }}
+          >
+            <strong>
+              {resolveFlowValue(screen.title, {
+                form: formValues,
+                data: screenData,
+              }) || screen.id}
+            </strong>
+            {history.length > 0 && (
+              <button
+                type="button"
+                className="small secondary"
+                onClick={handleBack}
+              >
+                Back
+              </button>
+            )}
+          </div>
+          {flattenFlowComponents(screen.layout && screen.layout.children).map(
+            renderComponent
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Cart builder for /simulate/order; quantities are keyed by retailer ID
+function OrderCartBuilder({ api, order, onChange }) {
+  const [catalogs, setCatalogs] = useState([]);
+
+  useEffect(() => {
+    api.get("/api/catalogs").then((res) => {
+      if (res.ok) setCatalogs(res.data.catalogs || []);
+    });
+  }, [api]);
+
+  const catalog = catalogs.find((c) => c.id === order.catalogId) || null;
+  const setQuantity = (retailerId, quantity) =>
+    onChange({
+      ...order,
+      cart: { ...order.cart, [retailerId]: Math.max(0, quantity) },
+    });
+  const total = catalog
+    ? catalog.products.reduce(
+        (sum, p) => sum + (order.cart[p.retailerId] || 0) * p.price,
+        0
+      )
+    : 0;
+
+  return (
+    <div className="field-group active" data-for="order">
+      <label htmlFor="orderCatalog">Catalog</label>
+      <select
+        id="orderCatalog"
+        value={order.catalogId}
+        onChange={(e) =>
+          onChange({ ...order, catalogId: e.target.value, cart: {} })
+        }
+      >
+        <option value="">Catalog connected to the phone</option>
+        {catalogs.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name} ({c.id})
+          </option>
+        ))}
+      </select>
+
+      {catalog &&
+        catalog.products.map((p) => (
+          <div
+            key={p.retailerId}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: "0.5rem",
+              marginBottom: "0.5rem",
+            }}
+          >
+            <span>
+              {p.name} ({p.retailerId}) – {p.price} {p.currency}
+              {p.availability !== "in stock" ? ` · ${p.availability}` : ""}
+            </span>
+            <input
+              type="number"
+              min="0"
+              style={{ width: "5rem", margin: 0 }}
+              value={order.cart[p.retailerId] || 0}
+              onChange={(e) =>
+                setQuantity(p.retailerId, parseInt(e.target.value, 10) || 0)
+              }
+            />
+          </div>
+        ))}
+      {catalog && (
+        <div style={{ marginBottom: "1rem" }}>
+          Cart total: {total.toFixed(2)}{" "}
+          {catalog.products[0] ? catalog.products[0].currency : ""}
+        </div>
+      )}
+
+      <label htmlFor="orderText">Message (Optional)</label>
+      <input
+        id="orderText"
+        value={order.text}
+        onChange={(e) => onChange({ ...order, text: e.target.value })}
+        placeholder="Please deliver before 6pm"
+      />
+    </div>
+  );
+}
+
+function CallPanel({ api, sender }) {
+  const [calls, setCalls] = useState([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    if (!sender.phoneId) return;
+    const res = await api.get(
+      `/api/calls?phoneId=${encodeURIComponent(sender.phoneId)}`
+    );
+    if (res.ok) setCalls(res.data.calls || []);
+  };
+
+  useEffect(() => {
+    load();
+  }, [api, sender.phoneId]);
+
+  const run = async (path, body, label) => {
+    setBusy(true);
+    try {
+      const res = await api.post(path, body);
+      if (res.ok) {
+        const fwdStatus = res.data && res.data.forwardStatus;
+        if (fwdStatus && (fwdStatus < 200 || fwdStatus >= 300)) {
+          showToast(
+            `${label}, but webhook failed (Status ${fwdStatus})`,
+            "error"
+          );
+        } else {
+          showToast(label, "success");
+        }
+      } else {
+        const msg =
+          res.data && res.data.error ? res.data.error : "Unknown error";
+        showToast(`Failed: ${msg}`, "error");
+      }
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const active = calls.filter(
+    (c) => c.state !== "rejected" && c.state !== "ended"
+  );
+
+  return (
+    <div className="field-group active" data-for="call">
+      {!sender.phoneId && (
+        <p>Pick a registered phone number to place calls.</p>
+      )}
+      <button
+        type="button"
+        disabled={busy || !sender.phoneId || !sender.from}
+        onClick={() =>
+          run(
+            "/simulate/calls/connect",
+            { from: sender.from, phoneNumberId: sender.phoneId },
+            "Call placed"
+          )
+        }
+      >
+        Call the business
+      </button>
+
+      {active.map((c) => (
+        <div
+          key={c.id}
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "0.5rem",
+            margin: "0.5rem 0",
+          }}
+        >
+          <span>
+            {c.direction === "USER_INITIATED" ? "From" : "To"} {c.waId} ·{" "}
+            {c.state}
+          </span>
+          <span style={{ display: "flex", gap: "0.5rem" }}>
+            {c.direction === "BUSINESS_INITIATED" && c.state === "ringing" && (
+              <>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    run("/simulate/calls/answer", { callId: c.id }, "Answered")
+                  }
+                >
+                  Answer
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    run(
+                      "/simulate/calls/answer",
+                      { callId: c.id, accept: false },
+                      "Declined"
+                    )
+                  }
+                >
+                  Decline
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() =>
+                run("/simulate/calls/terminate", { callId: c.id }, "Hung up")
+              }
+            >
+              Hang up
+            </button>
+          </span>
+        </div>
+      ))}
+      <button type="button" disabled={busy} onClick={load}>
+        Refresh
+      </button>
+    </div>
+  );
+}
+
+function QrScanner({ api, sender }) {
+  const [qrCodes, setQrCodes] = useState([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    if (!sender.phoneId) return;
+    const res = await api.get(
+      `/api/qr-codes/${encodeURIComponent(sender.phoneId)}`
+    );
+    if (res.ok) setQrCodes(res.data.qrCodes || []);
+  };
+
+  useEffect(() => {
+    load();
+  }, [api, sender.phoneId]);
+
+  const scan = async (code) => {
+    setBusy(true);
+    try {
+      const res = await api.post("/simulate/qr-scan", {
+        code,
+        from: sender.from,
+      });
+      if (res.ok) {
+        const fwdStatus = res.data && res.data.forwardStatus;
+        if (fwdStatus && (fwdStatus < 200 || fwdStatus >= 300)) {
+          showToast(
+            `Scanned, but webhook failed (Status ${fwdStatus})`,
+            "error"
+          );
+        } else {
+          showToast("Prefilled message sent!", "success");
+        }
+      } else {
+        const msg =
+          res.data && res.data.error ? res.data.error : "Unknown error";
+        showToast(`Failed: ${msg}`, "error");
+      }
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="field-group active" data-for="qr">
+      {!sender.phoneId && (
+        <p>Pick a registered phone number to list its QR codes.</p>
+      )}
+      {sender.phoneId && qrCodes.length === 0 && (
+        <p>
+          No QR codes yet. Create one via POST /&lt;PHONE_ID&gt;/message_qrdls.
+        </p>
+      )}
+      {qrCodes.map((qr) => (
+        <div
+          key={qr.code}
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "0.5rem",
+            margin: "0.5rem 0",
+          }}
+        >
+          <span>
+            “{qr.prefilledMessage}” · {qr.deepLinkUrl} · {qr.scans} scans
+          </span>
+          <button
+            type="button"
+            disabled={busy || !sender.from}
+            onClick={() => scan(qr.code)}
+          >
+            Scan
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const EMPTY_AD_CAMPAIGN = {
+  id: "",
+  name: "",
+  sourceType: "ad",
+  sourceUrl: "",
+  headline: "",
+  body: "",
+  mediaType: "image",
+  mediaUrl: "",
+};
+
+function AdCampaignPicker({ api, value, onChange }) {
+  const [campaigns, setCampaigns] = useState([]);
+  const [managing, setManaging] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_AD_CAMPAIGN);
+
+  const load = async () => {
+    const res = await api.get("/api/ad-campaigns");
+    if (res.ok) setCampaigns(res.data.campaigns || []);
+  };
+
+  useEffect(() => {
+    load();
+  }, [api]);
+
+  const handleSave = async () => {
+    if (!draft.id || !draft.sourceUrl) {
+      showToast("Ad ID and source URL are required", "error");
+      return;
+    }
+    const res = await api.put(
+      `/api/ad-campaigns/${encodeURIComponent(draft.id)}`,
+      draft
+    );
+    if (res.ok) {
+      showToast("Ad campaign saved", "success");
+      setDraft(EMPTY_AD_CAMPAIGN);
+      await load();
+    } else {
+      showToast(`Failed: ${res.data?.error || "Unknown error"}`, "error");
+    }
+  };
+
+  const handleDelete = async (id) => {
+    await api.del(`/api/ad-campaigns/${encodeURIComponent(id)}`);
+    if (value === id) onChange("");
+    await load();
+  };
+
+  const field = (key, label, placeholder) => (
+    <div>
+      <label htmlFor={`ad-${key}`}>{label}</label>
+      <input
+        id={`ad-${key}`}
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="field-group active" data-for="referral">
+      <label htmlFor="simAdCampaign">Click-to-WhatsApp Ad (Optional)</label>
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "1rem" }}>
+        <select
+          id="simAdCampaign"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          style={{ margin: 0 }}
+        >
+          <option value="">No referral</option>
+          {campaigns.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name} ({c.id})
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={() => setManaging(!managing)}>
+          {managing ? "Close" : "Manage"}
+        </button>
+      </div>
+
+      {managing && (
+        <div style={{ marginBottom: "1rem" }}>
+          {campaigns.map((c) => (
+            <div
+              key={c.id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                marginBottom: "0.5rem",
+              }}
+            >
+              <span>
+                {c.name} · {c.sourceType} · {c.sourceUrl}
+              </span>
+              <button type="button" onClick={() => handleDelete(c.id)}>
+                Delete
+              </button>
+            </div>
+          ))}
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: "0 1rem",
+            }}
+          >
+            {field("id", "Ad ID (source_id)", "120208000000000000")}
+            {field("name", "Name", "Spring sale")}
+            {field("sourceUrl", "Source URL", "https://fb.me/abc123")}
+            {field("headline", "Headline", "Get 20% off")}
+            {field("body", "Body", "Tap to chat with us")}
+            {field("mediaUrl", "Media URL", "https://...")}
+            <div>
+              <label htmlFor="ad-sourceType">Source Type</label>
+              <select
+                id="ad-sourceType"
+                value={draft.sourceType}
+                onChange={(e) =>
+                  setDraft({ ...draft, sourceType: e.target.value })
+                }
+              >
+                <option value="ad">ad</option>
+                <option value="post">post</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="ad-mediaType">Media Type</label>
+              <select
+                id="ad-mediaType"
+                value={draft.mediaType}
+                onChange={(e) =>
+                  setDraft({ ...draft, mediaType: e.target.value })
+                }
+              >
+                <option value="image">image</option>
+                <option value="video">video</option>
+              </select>
+            </div>
+          </div>
+          <button type="button" onClick={handleSave}>
+            Save Ad Campaign
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SimulateTab({
   api,
   phones,
@@ -126,6 +1044,8 @@ function SimulateTab({
   const [statusMessageId, setStatusMessageId] = useState("");
   const [statusRecipientId, setStatusRecipientId] = useState("");
   const [statusStatus, setStatusStatus] = useState("sent");
+  const [order, setOrder] = useState({ catalogId: "", cart: {}, text: "" });
+  const [adCampaignId, setAdCampaignId] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
@@ -149,10 +1069,35 @@ function SimulateTab({
     setMediaUrl(`/media/${file}`);
   };
 
+  // Resolve the registered phone behind the sender for webhook metadata
+  const resolveSender = () => {
+    let phoneId = selectedPhoneId || null;
+    let displayPhoneNumber = from;
+
+    // Try to resolve a registered phone for metadata
+    let selectedPhone = null;
+    if (!phoneId && from) {
+      const match = phones.find((p) => p.displayPhoneNumber === from);
+      if (match) {
+        phoneId = match.id;
+        selectedPhone = match;
+      }
+    }
+    if (!selectedPhone && phoneId) {
+      selectedPhone = phones.find((p) => p.id === phoneId) || null;
+    }
+    if (selectedPhone && selectedPhone.displayPhoneNumber) {
+      displayPhoneNumber = selectedPhone.displayPhoneNumber;
+    }
+    return { from, phoneId, displayPhoneNumber };
+  };
+
   const handleSubmit = async (e) => {
     e.preventDefault();
-    // Only require client token if auth mode is JWT
-    if (config?.auth?.mode === "jwt" && !authTokenPresent) {
+    // The flow runner, call panel and QR scanner drive their own requests
+    if (["flow", "call", "qr"].includes(simType)) return;
+    // Only require client token if an auth mode is enabled
+    if (config?.auth?.mode && config.auth.mode !== "none" && !authTokenPresent) {
       showToast("Set a client token in Settings first", "error");
       return;
     }
@@ -174,31 +1119,13 @@ function SimulateTab({
       } else {
         // Message types – match /simulate/<type> payloads
         // find phone id from selection or by matching display phone number
-        let phoneId = selectedPhoneId || null;
-        let displayPhoneNumber = from;
-
-        // Try to resolve a registered phone for metadata
-        let selectedPhone = null;
-        if (!phoneId && from) {
-          const match = phones.find(
-            (p) => p.displayPhoneNumber === from
-          );
-          if (match) {
-            phoneId = match.id;
-            selectedPhone = match;
-          }
-        }
-        if (!selectedPhone && phoneId) {
-          selectedPhone = phones.find((p) => p.id === phoneId) || null;
-        }
-        if (selectedPhone && selectedPhone.displayPhoneNumber) {
-          displayPhoneNumber = selectedPhone.displayPhoneNumber;
-        }
+        const { phoneId, displayPhoneNumber } = resolveSender();
 
         payload = {
           from,
           phoneNumberId: phoneId || undefined,
           displayPhoneNumber,
+          adCampaignId: adCampaignId || undefined,
         };
 
         if (simType === "text") {
@@ -208,6 +1135,12 @@ function SimulateTab({
           if (simType !== "audio") payload.caption = caption;
           if (simType === "document") payload.filename = filename;
           if (simType === "audio") payload.voice = voice;
+        } else if (simType === "order") {
+          payload.catalogId = order.catalogId || undefined;
+          payload.text = order.text || undefined;
+          payload.items = Object.entries(order.cart)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([retailerId, quantity]) => ({ retailerId, quantity }));
         }
       }
 
@@ -249,7 +1182,17 @@ function SimulateTab({
       <h2>Simulate Messages</h2>
       <div className="card">
         <div className="sim-type-selector" id="simTypeSelector">
-          {["text", "image", "document", "audio", "status"].map((t) => (
+          {[
+            "text",
+            "image",
+            "document",
+            "audio",
+            "order",
+            "flow",
+            "call",
+            "qr",
+            "status",
+          ].map((t) => (
             <div
               key={t}
               className={`sim-type-opt ${
@@ -257,7 +1200,7 @@ function SimulateTab({
               }`}
               onClick={() => handleSimTypeChange(t)}
             >
-              {t.charAt(0).toUpperCase() + t.slice(1)}
+              {t === "qr" ? "QR" : t.charAt(0).toUpperCase() + t.slice(1)}
             </div>
           ))}
         </div>
@@ -302,6 +1245,14 @@ function SimulateTab({
             </div>
           )}
 
+          {showCommonFields && !["flow", "call", "qr"].includes(simType) && (
+            <AdCampaignPicker
+              api={api}
+              value={adCampaignId}
+              onChange={setAdCampaignId}
+            />
+          )}
+
           {simType === "text" && (
             <div className="field-group active" data-for="text">
               <label htmlFor="simBody">Body</label>
@@ -449,21 +1400,39 @@ function SimulateTab({
             </div>
           )}
 
-          <button
-            type="submit"
-            id="simSubmitBtn"
-            disabled={submitting}
-          >
-            {simType === "status"
-              ? submitting
+          {simType === "order" && (
+            <OrderCartBuilder api={api} order={order} onChange={setOrder} />
+          )}
+
+          {simType === "flow" && (
+            <FlowRunner api={api} sender={resolveSender()} />
+          )}
+
+          {simType === "call" && (
+            <CallPanel api={api} sender={resolveSender()} />
+          )}
+
+          {simType === "qr" && (
+            <QrScanner api={api} sender={resolveSender()} />
+          )}
+
+          {!["flow", "call", "qr"].includes(simType) && (
+            <button
+              type="submit"
+              id="simSubmitBtn"
+              disabled={submitting}
+            >
+              {simType === "status"
+                ? submitting
+                  ? "Sending..."
+                  : "Send Status Update"
+                : submitting
                 ? "Sending..."
-                : "Send Status Update"
-              : submitting
-              ? "Sending..."
-              : `Send ${
-                  simType.charAt(0).toUpperCase() + simType.slice(1)
-                } Message`}
-          </button>
+                : `Send ${
+                    simType.charAt(0).toUpperCase() + simType.slice(1)
+                  } Message`}
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -812,6 +1781,7 @@ function ConfigTab({
         targetWebhookUrl: config.targetWebhookUrl || null,
         verifyToken: config.verifyToken,
         webhookAppSecret: config.webhookAppSecret || null,
+        inboundMediaMode: config.inboundMediaMode || "link",
         auth: {
           mode: config.auth.mode,
           jwtIssuer: config.auth.jwtIssuer,
@@ -893,6 +1863,18 @@ function ConfigTab({
             </div>
           </div>
 
+          <label>Inbound Media Delivery</label>
+          <select
+            name="inboundMediaMode"
+            value={config?.inboundMediaMode || "link"}
+            onChange={(e) =>
+              handleChange("inboundMediaMode", e.target.value)
+            }
+          >
+            <option value="link">Public link</option>
+            <option value="id">Media ID (download via GET /&lt;MEDIA_ID&gt;)</option>
+          </select>
+
           <h3>Authentication (JWT)</h3>
           <label>Mode</label>
           <select
@@ -902,6 +1884,7 @@ function ConfigTab({
           >
             <option value="none">None</option>
             <option value="jwt">JWT Bearer</option>
+            <option value="graph_token">Graph access token</option>
           </select>
 
           <div
@@ -1019,15 +2002,35 @@ function TrafficSidebar({ events, statusText, showJson, setShowJson }) {
           if (payload.entry) {
             const msg =
               payload.entry[0]?.changes[0]?.value?.messages?.[0];
+            const change = payload.entry[0]?.changes[0];
             if (msg) {
               type = msg.type;
               summary = msg.text?.body || `[${msg.type}]`;
+              if (msg.referral) {
+                summary += ` · via ${msg.referral.source_type} ${msg.referral.source_id}`;
+              }
+            } else if (change && change.field === "calls") {
+              const call = change.value?.calls?.[0];
+              const status = change.value?.statuses?.[0];
+              type = "call";
+              summary = call
+                ? `Call ${call.event}${call.status ? ` (${call.status})` : ""}`
+                : `Call ${status?.status || "update"}`;
+            } else if (change && change.field !== "messages") {
+              type = change.field;
+              summary = change.value?.event
+                ? `${change.field}: ${change.value.event}`
+                : change.field;
             }
           } else if (evt.type === "graph.message") {
             const sender = payload.sender || "client";
             const to = payload.to ? ` → ${payload.to}` : "";
             summary = `Graph /messages from ${sender}${to}`;
             type = payload.type || type;
+          } else if (evt.type === "flow.data_exchange") {
+            const action = payload.request?.action || "request";
+            const outcome = evt.meta?.ok ? "ok" : "failed";
+            summary = `Flow endpoint ${action} → ${evt.meta?.status ?? "no response"} (${outcome})`;
           }
           const directionClass = evt.direction || "system";
           return (
@@ -1,5 +1,9 @@
 export interface AuthConfig {
-  mode: "none" | "jwt";
+  /**
+   * `graph_token` expects opaque access tokens issued via
+   * `POST /api/auth/access-tokens`, checked per WABA/phone on Graph routes.
+   */
+  mode: "none" | "jwt" | "graph_token";
   /**
    * Shared secret for signing and verifying JWTs in this sandbox.
    * This is NOT meant for production; it only exists to simulate auth flows.
@@ -9,11 +13,19 @@ export interface AuthConfig {
   jwtAudience: string;
 }
 
+export type InboundMediaMode = "link" | "id";
+
 export interface RuntimeConfig {
   verifyToken: string;
   targetWebhookUrl: string | null;
   auth: AuthConfig;
   webhookAppSecret?: string | null;
+  /**
+   * How simulated inbound media is delivered: a public `link` (default), or
+   * only `id`/`mime_type`/`sha256` like the real Cloud API, which requires the
+   * app to resolve the media via GET /<MEDIA_ID>.
+   */
+  inboundMediaMode: InboundMediaMode;
 }
 
 const runtimeConfig: RuntimeConfig = {
@@ -26,6 +38,7 @@ const runtimeConfig: RuntimeConfig = {
     jwtAudience: "sandbox-client",
   },
   webhookAppSecret: process.env.WHATSAPP_APP_SECRET ?? null,
+  inboundMediaMode: "link",
 };
 
 export const getConfig = (): RuntimeConfig => runtimeConfig;
@@ -49,9 +62,17 @@ export const updateConfig = (patch: Partial<RuntimeConfig>): RuntimeConfig => {
     runtimeConfig.webhookAppSecret = patch.webhookAppSecret;
   }
 
+  if (patch.inboundMediaMode === "link" || patch.inboundMediaMode === "id") {
+    runtimeConfig.inboundMediaMode = patch.inboundMediaMode;
+  }
+
   if (patch.auth && typeof patch.auth === "object") {
     const authPatch = patch.auth;
-    if (authPatch.mode === "none" || authPatch.mode === "jwt") {
+    if (
+      authPatch.mode === "none" ||
+      authPatch.mode === "jwt" ||
+      authPatch.mode === "graph_token"
+    ) {
       runtimeConfig.auth.mode = authPatch.mode;
     }
     if (typeof authPatch.jwtSecret === "string" && authPatch.jwtSecret) {
@@ -14,11 +14,25 @@ import { createTemplatesRouter } from "./routes/templates";
 import { createGraphRouter } from "./routes/graph";
 import { createMarketingRouter } from "./routes/marketing";
 import { createMediaRouter } from "./routes/media";
-import { requireSandboxAuth } from "./middleware/auth";
+import { createMediaDownloadRouter } from "./routes/mediaDownload";
+import { createServiceWindowsRouter } from "./routes/serviceWindows";
+import { createMessagingLimitsRouter } from "./routes/messagingLimits";
+import { createBusinessesRouter } from "./routes/businesses";
+import { createFlowsRouter } from "./routes/flows";
+import { createCatalogsRouter } from "./routes/catalogs";
+import { createOrdersRouter } from "./routes/orders";
+import { createCallsRouter } from "./routes/calls";
+import { createQrCodesRouter } from "./routes/qrCodes";
+import { createAdCampaignsRouter } from "./routes/adCampaigns";
+import { requireGraphAuth, requireSandboxAuth } from "./middleware/auth";
+import { registerTemplateWebhooks } from "./services/templateWebhooks";
 
 const app = express();
 const PORT = 3737;
 
+// Account-level webhooks driven by state changes
+registerTemplateWebhooks();
+
 app.use(cors());
 app.use(bodyParser.json());
 
@@ -39,6 +53,23 @@ app.use("/api/marketing", requireSandboxAuth, createMarketingRouter());
 app.use("/api/templates", requireSandboxAuth, createTemplatesRouter());
 app.use("/api/phone-numbers", requireSandboxAuth, createPhoneNumbersRouter());
 app.use("/api/media", requireSandboxAuth, createMediaRouter());
+app.use(
+  "/api/service-windows",
+  requireSandboxAuth,
+  createServiceWindowsRouter()
+);
+app.use(
+  "/api/messaging-limits",
+  requireSandboxAuth,
+  createMessagingLimitsRouter()
+);
+app.use("/api/businesses", requireSandboxAuth, createBusinessesRouter());
+app.use("/api/flows", requireSandboxAuth, createFlowsRouter());
+app.use("/api/catalogs", requireSandboxAuth, createCatalogsRouter());
+app.use("/api/orders", requireSandboxAuth, createOrdersRouter());
+app.use("/api/calls", requireSandboxAuth, createCallsRouter());
+app.use("/api/qr-codes", requireSandboxAuth, createQrCodesRouter());
+app.use("/api/ad-campaigns", requireSandboxAuth, createAdCampaignsRouter());
 
 // Health
 app.get("/health", (_req, res) => {
@@ -53,11 +84,14 @@ app.get("/health", (_req, res) => {
 // Webhook endpoint that mimics WhatsApp
 app.use("/webhook", createWebhookRouter());
 
+// Downloads for media uploaded via Graph POST /<PHONE_ID>/media
+app.use("/media-download", requireSandboxAuth, createMediaDownloadRouter());
+
 // Simulation endpoints that send WhatsApp-style events to your app
 app.use("/simulate", requireSandboxAuth, createSimulateRouter());
 
 // Graph-style versioned endpoints (e.g. /v20.0/<ID>/...)
-app.use("/:graphVersion", requireSandboxAuth, createGraphRouter());
+app.use("/:graphVersion", requireGraphAuth, createGraphRouter());
 
 app.listen(PORT, () => {
   // eslint-disable-next-line no-console
@@ -1,6 +1,17 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { getConfig } from "../config";
+import {
+  getAccessToken,
+  isAccessTokenExpired,
+} from "../state/accessTokens";
+import { sendGraphError } from "../services/graphErrors";
+
+const getBearerToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) return undefined;
+  return header.slice("Bearer ".length);
+};
 
 export const requireSandboxAuth = (
   req: Request,
@@ -13,8 +24,8 @@ export const requireSandboxAuth = (
     return next();
   }
 
-  const header = req.headers.authorization;
-  if (!header || !header.startsWith("Bearer ")) {
+  const token = getBearerToken(req);
+  if (!token) {
     res.status(401).json({
       error: "missing_authorization",
       message: "Expected Authorization: Bearer <token>",
@@ -22,7 +33,25 @@ export const requireSandboxAuth = (
     return;
   }
 
-  const token = header.slice("Bearer ".length);
+  if (config.auth.mode === "graph_token") {
+    const accessToken = getAccessToken(token);
+    if (!accessToken || isAccessTokenExpired(accessToken)) {
+      res.status(401).json({
+        error: "invalid_token",
+        message: accessToken
+          ? "Access token has expired"
+          : "Unknown access token",
+      });
+      return;
+    }
+    (req as any).sandboxAuth = {
+      mode: config.auth.mode,
+      token,
+      accessToken,
+    };
+    return next();
+  }
+
   try {
     const decoded = jwt.verify(token, config.auth.jwtSecret, {
       issuer: config.auth.jwtIssuer,
@@ -44,3 +73,45 @@ export const requireSandboxAuth = (
   }
 };
 
+/**
+ * Auth for Graph-style routes. In `graph_token` mode the token may also come
+ * from the `access_token` query parameter, and failures use Graph error
+ * envelopes; other modes behave like `requireSandboxAuth`.
+ */
+export const requireGraphAuth = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const config = getConfig();
+  if (config.auth.mode !== "graph_token") {
+    return requireSandboxAuth(req, res, next);
+  }
+
+  const token =
+    getBearerToken(req) ??
+    (typeof req.query.access_token === "string"
+      ? req.query.access_token
+      : undefined);
+  if (!token) {
+    sendGraphError(res, "access_token_required");
+    return;
+  }
+
+  const accessToken = getAccessToken(token);
+  if (!accessToken) {
+    sendGraphError(res, "invalid_access_token");
+    return;
+  }
+  if (isAccessTokenExpired(accessToken)) {
+    sendGraphError(res, "access_token_expired");
+    return;
+  }
+
+  (req as any).sandboxAuth = {
+    mode: config.auth.mode,
+    token,
+    accessToken,
+  };
+  next();
+};
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from "express";
+import {
+  deleteAdCampaign,
+  listAdCampaigns,
+  upsertAdCampaign,
+} from "../state/adCampaigns";
+
+// Click-to-WhatsApp ads used to attach `referral` objects to simulated messages
+export const createAdCampaignsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (_req: Request, res: Response) => {
+    res.json({ campaigns: listAdCampaigns() });
+  });
+
+  router.put("/:id", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+
+    const {
+      name,
+      sourceType = "ad",
+      sourceUrl,
+      headline,
+      body,
+      mediaType,
+      mediaUrl,
+      thumbnailUrl,
+    } = req.body ?? {};
+    if (typeof sourceUrl !== "string" || !sourceUrl) {
+      return res.status(400).json({ error: "source_url_required" });
+    }
+    if (sourceType !== "ad" && sourceType !== "post") {
+      return res.status(400).json({ error: "source_type_must_be_ad_or_post" });
+    }
+    if (
+      mediaType !== undefined &&
+      mediaType !== "" &&
+      mediaType !== "image" &&
+      mediaType !== "video"
+    ) {
+      return res
+        .status(400)
+        .json({ error: "media_type_must_be_image_or_video" });
+    }
+
+    const campaign = upsertAdCampaign({
+      id,
+      name: typeof name === "string" && name ? name : id,
+      sourceType,
+      sourceUrl,
+      ...(typeof headline === "string" && headline ? { headline } : {}),
+      ...(typeof body === "string" && body ? { body } : {}),
+      ...(mediaType ? { mediaType } : {}),
+      ...(typeof mediaUrl === "string" && mediaUrl ? { mediaUrl } : {}),
+      ...(typeof thumbnailUrl === "string" && thumbnailUrl
+        ? { thumbnailUrl }
+        : {}),
+    });
+    return res.json(campaign);
+  });
+
+  router.delete("/:id", (req: Request, res: Response) => {
+    if (!req.params.id || !deleteAdCampaign(req.params.id)) {
+      return res.status(404).json({ error: "ad_campaign_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
+  return router;
+};
+
+export default createAdCampaignsRouter;
@@ -1,6 +1,21 @@
 import { Router, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { getConfig } from "../config";
+import { requireSandboxAuth } from "../middleware/auth";
+import {
+  GRAPH_PERMISSIONS,
+  isGraphPermission,
+  issueAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  GraphAccessToken,
+} from "../state/accessTokens";
+
+// Listings only show the last 4 characters of each token
+const redactAccessToken = (token: GraphAccessToken) => ({
+  ...token,
+  token: `****${token.token.slice(-4)}`,
+});
 
 export const createAuthRouter = (): Router => {
   const router = Router();
@@ -34,6 +49,74 @@ export const createAuthRouter = (): Router => {
     });
   });
 
+  // Opaque Graph access tokens used in `graph_token` auth mode. Managing them
+  // needs the same auth as the other sandbox APIs.
+  router.use("/access-tokens", requireSandboxAuth);
+
+  router.get("/access-tokens", (_req: Request, res: Response) => {
+    res.json({ tokens: listAccessTokens().map(redactAccessToken) });
+  });
+
+  router.post("/access-tokens", (req: Request, res: Response) => {
+    const {
+      type = "system_user",
+      name,
+      userId,
+      scopes,
+      wabaIds,
+      phoneIds,
+      ttlSeconds,
+    } = req.body || {};
+
+    const normalizedType = String(type).toUpperCase();
+    if (normalizedType !== "SYSTEM_USER" && normalizedType !== "USER") {
+      return res
+        .status(400)
+        .json({ error: "type_must_be_system_user_or_user" });
+    }
+    if (
+      scopes !== undefined &&
+      (!Array.isArray(scopes) || !scopes.every(isGraphPermission))
+    ) {
+      return res.status(400).json({
+        error: "invalid_scopes",
+        allowed: GRAPH_PERMISSIONS,
+      });
+    }
+    if (
+      ttlSeconds !== undefined &&
+      (typeof ttlSeconds !== "number" || ttlSeconds <= 0)
+    ) {
+      return res.status(400).json({ error: "ttlSeconds_must_be_positive" });
+    }
+
+    const token = issueAccessToken({
+      type: normalizedType,
+      ...(typeof name === "string" && name ? { name } : {}),
+      ...(typeof userId === "string" && userId ? { userId } : {}),
+      ...(scopes !== undefined ? { scopes } : {}),
+      wabaIds,
+      phoneIds,
+      ...(ttlSeconds !== undefined ? { ttlMs: ttlSeconds * 1000 } : {}),
+    });
+
+    return res.status(201).json({
+      ...token,
+      hint: {
+        authorizationHeader: `Authorization: Bearer ${token.token}`,
+      },
+    });
+  });
+
+  // Accepts the token's `id` from the listing as well as its full value
+  router.delete("/access-tokens/:token", (req: Request, res: Response) => {
+    const { token } = req.params;
+    if (!token || !revokeAccessToken(token)) {
+      return res.status(404).json({ error: "access_token_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
   return router;
 };
 
@@ -0,0 +1,131 @@
+import { Router, Request, Response } from "express";
+import {
+  deleteBusiness,
+  getBusiness,
+  listBusinesses,
+  listBusinessPhoneIds,
+  BusinessPortfolio,
+  MessagingLimitMode,
+  upsertBusiness,
+} from "../state/businesses";
+import {
+  isMessagingLimitTier,
+  MESSAGING_LIMIT_TIERS,
+  MessagingLimitTier,
+} from "../state/messagingLimits";
+
+const withPhoneIds = (business: BusinessPortfolio) => ({
+  ...business,
+  resolvedPhoneIds: listBusinessPhoneIds(business),
+});
+
+const parseBusinessBody = (
+  body: any
+):
+  | { ok: true; mode?: MessagingLimitMode; tier?: MessagingLimitTier }
+  | { ok: false; error: Record<string, unknown> } => {
+  const { messagingLimitMode, tier } = body ?? {};
+  if (
+    messagingLimitMode !== undefined &&
+    messagingLimitMode !== "phone" &&
+    messagingLimitMode !== "portfolio"
+  ) {
+    return {
+      ok: false,
+      error: { error: "messagingLimitMode_must_be_phone_or_portfolio" },
+    };
+  }
+  if (tier !== undefined && !isMessagingLimitTier(tier)) {
+    return {
+      ok: false,
+      error: { error: "invalid_tier", allowed: MESSAGING_LIMIT_TIERS },
+    };
+  }
+  return {
+    ok: true,
+    ...(messagingLimitMode !== undefined ? { mode: messagingLimitMode } : {}),
+    ...(tier !== undefined ? { tier } : {}),
+  };
+};
+
+// Business portfolios that own WABAs and phone numbers
+export const createBusinessesRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (_req: Request, res: Response) => {
+    res.json({ businesses: listBusinesses().map(withPhoneIds) });
+  });
+
+  router.post("/", (req: Request, res: Response) => {
+    const { id, name, wabaIds, phoneIds } = req.body ?? {};
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    const parsed = parseBusinessBody(req.body);
+    if (!parsed.ok) {
+      return res.status(400).json(parsed.error);
+    }
+
+    const business = upsertBusiness({
+      id,
+      ...(typeof name === "string" ? { name } : {}),
+      wabaIds,
+      phoneIds,
+      ...(parsed.mode !== undefined ? { messagingLimitMode: parsed.mode } : {}),
+      ...(parsed.tier !== undefined ? { tier: parsed.tier } : {}),
+    });
+    return res.status(201).json(withPhoneIds(business));
+  });
+
+  router.get("/:id", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    const business = getBusiness(id);
+    if (!business) {
+      return res.status(404).json({ error: "business_not_found" });
+    }
+    return res.json(withPhoneIds(business));
+  });
+
+  router.put("/:id", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    if (!getBusiness(id)) {
+      return res.status(404).json({ error: "business_not_found" });
+    }
+    const parsed = parseBusinessBody(req.body);
+    if (!parsed.ok) {
+      return res.status(400).json(parsed.error);
+    }
+
+    const { name, wabaIds, phoneIds } = req.body ?? {};
+    const business = upsertBusiness({
+      id,
+      ...(typeof name === "string" ? { name } : {}),
+      wabaIds,
+      phoneIds,
+      ...(parsed.mode !== undefined ? { messagingLimitMode: parsed.mode } : {}),
+      ...(parsed.tier !== undefined ? { tier: parsed.tier } : {}),
+    });
+    return res.json(withPhoneIds(business));
+  });
+
+  router.delete("/:id", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    if (!deleteBusiness(id)) {
+      return res.status(404).json({ error: "business_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
+  return router;
+};
+
+export default createBusinessesRouter;
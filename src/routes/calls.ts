@@ -0,0 +1,28 @@
+import { Router, Request, Response } from "express";
+import { getCall, getCallingSettings, listCalls } from "../state/calls";
+
+// Calls signaled through POST /<PHONE_ID>/calls or the simulator
+export const createCallsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response) => {
+    const phoneId =
+      typeof req.query.phoneId === "string" ? req.query.phoneId : undefined;
+    res.json({
+      calls: listCalls(phoneId),
+      ...(phoneId ? { settings: getCallingSettings(phoneId) } : {}),
+    });
+  });
+
+  router.get("/:callId", (req: Request, res: Response) => {
+    const call = req.params.callId ? getCall(req.params.callId) : undefined;
+    if (!call) {
+      return res.status(404).json({ error: "call_not_found" });
+    }
+    return res.json(call);
+  });
+
+  return router;
+};
+
+export default createCallsRouter;
@@ -0,0 +1,107 @@
+import { Router, Request, Response } from "express";
+import {
+  deleteCatalog,
+  deleteProduct,
+  getCatalog,
+  isProductAvailability,
+  listCatalogs,
+  listProducts,
+  PRODUCT_AVAILABILITIES,
+  ProductCatalog,
+  upsertCatalog,
+  upsertProduct,
+} from "../state/commerce";
+
+const withProducts = (catalog: ProductCatalog) => ({
+  ...catalog,
+  products: listProducts(catalog.id),
+});
+
+// Local product catalogs used to validate product, product_list and order messages
+export const createCatalogsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response) => {
+    const wabaId =
+      typeof req.query.wabaId === "string" ? req.query.wabaId : undefined;
+    res.json({ catalogs: listCatalogs(wabaId).map(withProducts) });
+  });
+
+  router.post("/", (req: Request, res: Response) => {
+    const { id, name, wabaId } = req.body ?? {};
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+
+    const catalog = upsertCatalog({
+      id,
+      ...(typeof name === "string" ? { name } : {}),
+      ...(typeof wabaId === "string" ? { wabaId } : {}),
+    });
+    return res.status(201).json(withProducts(catalog));
+  });
+
+  router.get("/:id", (req: Request, res: Response) => {
+    const catalog = req.params.id ? getCatalog(req.params.id) : undefined;
+    if (!catalog) {
+      return res.status(404).json({ error: "catalog_not_found" });
+    }
+    return res.json(withProducts(catalog));
+  });
+
+  router.delete("/:id", (req: Request, res: Response) => {
+    if (!req.params.id || !deleteCatalog(req.params.id)) {
+      return res.status(404).json({ error: "catalog_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
+  router.put("/:id/products/:retailerId", (req: Request, res: Response) => {
+    const { id, retailerId } = req.params;
+    if (!id || !retailerId || !getCatalog(id)) {
+      return res.status(404).json({ error: "catalog_not_found" });
+    }
+
+    const { name, description, price, currency, availability, imageUrl } =
+      req.body ?? {};
+    if (typeof name !== "string" || !name) {
+      return res.status(400).json({ error: "name_required" });
+    }
+    if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+      return res.status(400).json({ error: "price_must_be_a_non_negative_number" });
+    }
+    if (typeof currency !== "string" || !/^[A-Za-z]{3}$/.test(currency)) {
+      return res.status(400).json({ error: "currency_must_be_iso_4217" });
+    }
+    if (availability !== undefined && !isProductAvailability(availability)) {
+      return res.status(400).json({
+        error: "invalid_availability",
+        allowed: PRODUCT_AVAILABILITIES,
+      });
+    }
+
+    const product = upsertProduct({
+      catalogId: id,
+      retailerId,
+      name,
+      price,
+      currency,
+      ...(availability !== undefined ? { availability } : {}),
+      ...(typeof description === "string" ? { description } : {}),
+      ...(typeof imageUrl === "string" ? { imageUrl } : {}),
+    });
+    return res.json(product);
+  });
+
+  router.delete("/:id/products/:retailerId", (req: Request, res: Response) => {
+    const { id, retailerId } = req.params;
+    if (!id || !retailerId || !deleteProduct(id, retailerId)) {
+      return res.status(404).json({ error: "product_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
+  return router;
+};
+
+export default createCatalogsRouter;
@@ -0,0 +1,42 @@
+import { Router, Request, Response } from "express";
+import { getFlow, listFlows, WhatsAppFlow } from "../state/flows";
+
+// The console runner needs the parsed flow JSON rather than the raw upload
+const toFlowView = (flow: WhatsAppFlow, includeJson: boolean) => {
+  const { flowJson, ...rest } = flow;
+  let parsed: unknown = null;
+  if (includeJson && flowJson) {
+    try {
+      parsed = JSON.parse(flowJson);
+    } catch {
+      parsed = null;
+    }
+  }
+  return {
+    ...rest,
+    hasFlowJson: Boolean(flowJson),
+    ...(includeJson ? { flowJson: parsed } : {}),
+  };
+};
+
+export const createFlowsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response) => {
+    const wabaId =
+      typeof req.query.wabaId === "string" ? req.query.wabaId : undefined;
+    res.json({ flows: listFlows(wabaId).map((f) => toFlowView(f, false)) });
+  });
+
+  router.get("/:id", (req: Request, res: Response) => {
+    const flow = req.params.id ? getFlow(req.params.id) : undefined;
+    if (!flow) {
+      return res.status(404).json({ error: "flow_not_found" });
+    }
+    return res.json(toFlowView(flow, true));
+  });
+
+  return router;
+};
+
+export default createFlowsRouter;
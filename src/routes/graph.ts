@@ -1,7 +1,10 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import multer from "multer";
 import {
   getPhoneNumber,
   getWaba,
+  PhoneNumberConfig,
   listPhoneNumbers,
   registerPhoneNumber,
   requestPhoneVerificationCode,
@@ -16,8 +19,10 @@ import {
 } from "../state/webhookRouting";
 import {
   ConversationCategory,
+  PricingType,
   evaluateMessagingLimit,
   getMessagingSummaryForPhone,
+  MessagingLimitEvaluation,
   listSendEvents,
   registerSend,
 } from "../state/messagingLimits";
@@ -49,8 +54,112 @@ import {
   getBusinessProfile,
   upsertBusinessProfile,
 } from "../state/businessProfile";
-import { evaluatePolicyForWaId } from "../state/policy";
+import {
+  blockUserForPhone,
+  evaluatePolicyForWaId,
+  listUsersBlockedByPhone,
+  unblockUserForPhone,
+} from "../state/policy";
+import {
+  evaluateServiceWindow,
+  recordBusinessReply,
+} from "../state/serviceWindows";
+import {
+  createFlow,
+  deleteFlow,
+  FLOW_CATEGORIES,
+  FlowCategory,
+  getFlow,
+  getFlowByName,
+  getFlowPreview,
+  isFlowCategory,
+  listFlows,
+  setFlowJson,
+  setFlowStatus,
+  updateFlowMetadata,
+  WhatsAppFlow,
+} from "../state/flows";
+import { validateFlowJson } from "../services/flowValidation";
+import {
+  ProductMessageValidation,
+  validateProductMessage,
+} from "../services/productMessages";
+import {
+  OrderDetailsValidation,
+  OrderStatusValidation,
+  validateOrderDetailsMessage,
+  validateOrderStatusMessage,
+} from "../services/paymentMessages";
+import { createOrder, setOrderStatus } from "../state/payments";
+import {
+  getCommerceSettings,
+  listCatalogs,
+  updateCommerceSettings,
+} from "../state/commerce";
+import {
+  applyCallAction,
+  CALL_ACTIONS,
+  CallingSettings,
+  CallSession,
+  canApplyCallAction,
+  createCall,
+  findActiveCall,
+  getCall,
+  getCallingSettings,
+  isCallAction,
+  isCallActive,
+  updateCallingSettings,
+} from "../state/calls";
+import {
+  buildCallStatus,
+  buildCallTerminateEvent,
+  forwardCallWebhook,
+} from "../services/callWebhooks";
+import {
+  createQrCode,
+  deleteQrCode,
+  getDeepLinkUrl,
+  getQrCode,
+  isQrImageFormat,
+  listQrCodes,
+  MAX_PREFILLED_MESSAGE_LENGTH,
+  PrefilledMessageQrCode,
+  QR_IMAGE_FORMATS,
+  QrImageFormat,
+  updateQrCode,
+} from "../state/qrCodes";
+import { renderQrImage } from "../services/qrImages";
+import {
+  getBusinessEncryptionKey,
+  setBusinessEncryptionKey,
+} from "../state/businessEncryption";
+import { scheduleStatusLifecycle } from "../services/statusLifecycle";
+import {
+  RenderedTemplate,
+  renderTemplateMessage,
+} from "../services/templateRendering";
+import { scheduleTemplateReview } from "../services/templateReview";
+import { trackTemplateSend } from "../services/templateQuality";
+import { recordPhoneSignal } from "../services/phoneQuality";
+import { maybeAutoUpgradeTier } from "../services/messagingTiers";
+import { createMessageId } from "../services/messageIds";
+import { getTemplateReviewConfig } from "../state/templateReview";
+import { buildGraphError, sendGraphError } from "../services/graphErrors";
+import { checkGraphAccess } from "../services/graphAccess";
+import {
+  getAccessToken,
+  GraphAccessToken,
+  GraphPermission,
+  isAccessTokenExpired,
+} from "../state/accessTokens";
+import { getConfig } from "../config";
 import { addEvent } from "../state/eventStore";
+import {
+  createMediaDownloadUrl,
+  deleteMedia,
+  getMedia,
+  storeMedia,
+} from "../state/media";
 
 export const createGraphRouter = (): Router => {
   const router = Router({ mergeParams: true });
@@ -115,6 +224,38 @@ export const createGraphRouter = (): Router => {
     return undefined;
   };
 
+  // Supported media types and max sizes (bytes) per Cloud API docs
+  const mediaSizeLimits: Array<{ types: string[]; maxSize: number }> = [
+    {
+      types: ["audio/aac", "audio/amr", "audio/mpeg", "audio/mp4", "audio/ogg"],
+      maxSize: 16 * 1024 * 1024,
+    },
+    {
+      types: [
+        "text/plain",
+        "application/pdf",
+        "application/vnd.ms-powerpoint",
+        "application/msword",
+        "application/vnd.ms-excel",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      ],
+      maxSize: 100 * 1024 * 1024,
+    },
+    { types: ["image/jpeg", "image/png"], maxSize: 5 * 1024 * 1024 },
+    { types: ["image/webp"], maxSize: 500 * 1024 },
+    { types: ["video/3gpp", "video/mp4"], maxSize: 16 * 1024 * 1024 },
+  ];
+
+  const supportedMediaTypes = mediaSizeLimits.flatMap((entry) => entry.types);
+
+  const maxMediaSizeByMimeType = (mimeType: string): number | undefined => {
+    const base = mimeType.split(";")[0]?.trim().toLowerCase() ?? "";
+    return mediaSizeLimits.find((entry) => entry.types.includes(base))
+      ?.maxSize;
+  };
+
   const sanitizeExample = (raw: any): Record<string, unknown> => {
     const example: Record<string, unknown> = {};
     if (!raw || typeof raw !== "object") return example;
@@ -165,6 +306,27 @@ export const createGraphRouter = (): Router => {
         example.button_text = buttonText;
       }
     }
+    if (Array.isArray(raw.header_handle)) {
+      const handles = raw.header_handle.filter(
+        (h: unknown): h is string => typeof h === "string"
+      );
+      if (handles.length > 0) {
+        example.header_handle = handles;
+      }
+    }
+    for (const key of ["header_text_named_params", "body_text_named_params"]) {
+      if (!Array.isArray(raw[key])) continue;
+      const named = raw[key].filter(
+        (item: unknown) =>
+          !!item &&
+          typeof item === "object" &&
+          typeof (item as any).param_name === "string" &&
+          typeof (item as any).example === "string"
+      );
+      if (named.length > 0) {
+        example[key] = named;
+      }
+    }
 
     return example;
   };
@@ -303,6 +465,79 @@ export const createGraphRouter = (): Router => {
     return result;
   };
 
+  // Unknown IDs answer like Graph does for objects that don't exist
+  const objectNotFound = (
+    req: Request,
+    res: Response,
+    id: string | undefined = req.params.id
+  ): Response =>
+    sendGraphError(res, "object_not_found", {
+      id: id ?? "",
+      method: req.method,
+    });
+
+  // Numbers start out unregistered in the sandbox and can still send; only an
+  // explicit POST /<PHONE_ID>/deregister takes them offline
+  const isDeregistered = (phone: PhoneNumberConfig): boolean =>
+    phone.registered === false && (phone.deregisterRequests?.length ?? 0) > 0;
+
+  // Phone numbers in requests may carry "+" or formatting; wa_ids are digits
+  const toWaId = (value: string): string => value.replace(/\D/g, "");
+
+  // Graph errors for sends of templates that can't be used right now
+  const sendTemplateUnavailable = (
+    res: Response,
+    tpl: MessageTemplate
+  ): Response => {
+    if (tpl.status === "PAUSED" || tpl.status === "DISABLED") {
+      const paused = tpl.status === "PAUSED";
+      return sendGraphError(
+        res,
+        paused ? "template_paused" : "template_disabled",
+        {
+          details: paused
+            ? `Template ${tpl.name} is paused due to low quality so it cannot be sent in a template message.`
+            : `Template ${tpl.name} has been disabled due to low quality so it cannot be sent in a template message.`,
+          sandbox: {
+            template_id: tpl.id,
+            status: tpl.status,
+            quality_score: tpl.quality?.score ?? "UNKNOWN",
+          },
+        }
+      );
+    }
+    return sendGraphError(res, "template_not_found", {
+      details: `Template ${tpl.name} is ${tpl.status} and can't be sent until it is approved.`,
+      sandbox: {
+        template_id: tpl.id,
+        status: tpl.status,
+        rejection_reason: tpl.rejectionReason ?? null,
+      },
+    });
+  };
+
+  // 131048 for sends over the phone's or the business portfolio's limit
+  const sendMessagingLimitError = (
+    res: Response,
+    evaluation: MessagingLimitEvaluation
+  ): Response => {
+    const subject =
+      evaluation.scope === "portfolio" ? "business portfolio" : "phone number";
+    return sendGraphError(res, "spam_rate_limit", {
+      message: `Messaging limit reached for this ${subject}`,
+      userTitle: "Messaging limit exceeded",
+      userMessage: `You have reached the maximum number of unique recipients for this ${subject} in the last 24 hours in the sandbox.`,
+      sandbox: {
+        scope: evaluation.scope,
+        business_id: evaluation.businessId ?? null,
+        tier: evaluation.tier,
+        unique_recipients_in_window: evaluation.windowUniqueRecipients,
+        max_unique_recipients: evaluation.limitUniqueRecipients,
+        reason: evaluation.reason,
+      },
+    });
+  };
+
   const toGraphTemplate = (
     tpl: MessageTemplate,
     fields?: string[]
@@ -355,7 +590,9 @@ export const createGraphRouter = (): Router => {
     }
     if (includeField("components")) payload.components = graphComponents;
     if (includeField("quality_score")) {
-      payload.quality_score = { score: "UNKNOWN" };
+      payload.quality_score = tpl.quality
+        ? { score: tpl.quality.score, date: Math.floor(tpl.quality.updatedAt / 1000) }
+        : { score: "UNKNOWN" };
     }
     if (includeField("last_updated_time")) {
       payload.last_updated_time = tpl.updatedAt;
@@ -423,12 +660,89 @@ export const createGraphRouter = (): Router => {
     };
   };
 
+  // ----- Access tokens (graph_token auth mode) -----
+
+  // GET /debug_token?input_token=... – inspect a sandbox access token
+  router.get("/debug_token", (req: Request, res: Response) => {
+    const inputToken = req.query.input_token;
+    if (typeof inputToken !== "string" || !inputToken) {
+      return sendGraphError(res, "required_parameter", {
+        param: "input_token",
+      });
+    }
+
+    const token = getAccessToken(inputToken);
+    if (!token) {
+      return res.json({
+        data: {
+          error: {
+            code: 190,
+            message: "Invalid OAuth access token.",
+          },
+          is_valid: false,
+          scopes: [],
+        },
+      });
+    }
+
+    const toSeconds = (ms: number | null): number =>
+      ms === null ? 0 : Math.floor(ms / 1000);
+    return res.json({
+      data: {
+        app_id: token.appId,
+        type: token.type,
+        application: "WABA Sandbox",
+        data_access_expires_at: 0,
+        expires_at: toSeconds(token.expiresAt),
+        is_valid: !isAccessTokenExpired(token),
+        issued_at: toSeconds(token.issuedAt),
+        scopes: token.scopes,
+        granular_scopes: token.scopes.map((scope) => ({
+          scope,
+          target_ids: [...token.wabaIds, ...token.phoneIds],
+        })),
+        user_id: token.userId,
+      },
+    });
+  });
+
+  // Sends and media need whatsapp_business_messaging; everything else is
+  // management of the WABA or phone number
+  const messagingEdges = new Set([
+    "/messages",
+    "/marketing_messages",
+    "/media",
+    "/calls",
+  ]);
+
+  router.use("/:id", (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const accessToken: GraphAccessToken | undefined = (req as any).sandboxAuth
+      ?.accessToken;
+    if (getConfig().auth.mode !== "graph_token" || !accessToken || !id) {
+      return next();
+    }
+
+    const permission: GraphPermission =
+      messagingEdges.has(req.path) || getMedia(id)
+        ? "whatsapp_business_messaging"
+        : "whatsapp_business_management";
+    const access = checkGraphAccess(accessToken, { id, permission });
+    if (!access.ok) {
+      return sendGraphError(res, "permission_denied", {
+        ...(access.reason === "missing_permission" ? { permission } : {}),
+        sandbox: { reason: access.reason, required_permission: permission },
+      });
+    }
+    return next();
+  });
+
   // ----- WABA-level subscribed_apps (override callback) -----
 
   router.post("/:id/subscribed_apps", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
 
     const { override_callback_uri, verify_token } = req.body ?? {};
@@ -454,7 +768,7 @@ export const createGraphRouter = (): Router => {
   router.get("/:id/subscribed_apps", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
     const waba = getWaba(id);
     if (!waba) {
@@ -497,7 +811,9 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/request_code", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { code_method, language, code_override } = req.body ?? {};
@@ -505,8 +821,8 @@ export const createGraphRouter = (): Router => {
       (code_method !== "SMS" && code_method !== "VOICE") ||
       typeof language !== "string"
     ) {
-      return res.status(400).json({
-        error: "code_method_SMS_or_VOICE_and_language_required",
+      return sendGraphError(res, "invalid_parameter", {
+        details: "code_method must be SMS or VOICE and language is required",
       });
     }
 
@@ -527,7 +843,7 @@ export const createGraphRouter = (): Router => {
     const pending = requestPhoneVerificationCode(requestPayload);
 
     if (!pending) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     // Graph API just returns success; we also echo code in sandbox for convenience.
@@ -541,17 +857,21 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/verify_code", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { code } = req.body ?? {};
     if (typeof code !== "string") {
-      return res.status(400).json({ error: "code_required" });
+      return sendGraphError(res, "required_parameter", { param: "code" });
     }
 
     const ok = verifyPhoneNumberCode({ id, code });
     if (!ok) {
-      return res.status(400).json({ success: false, error: "invalid_code" });
+      return sendGraphError(res, "verification_code_error", {
+        details: "The verification code is incorrect or has expired.",
+      });
     }
     return res.json({ success: true });
   });
@@ -560,17 +880,19 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/two_step_verification", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { pin } = req.body ?? {};
     if (typeof pin !== "string" || !pin) {
-      return res.status(400).json({ error: "pin_required" });
+      return sendGraphError(res, "required_parameter", { param: "pin" });
     }
 
     const saved = setTwoStepVerificationPin({ id, pin });
     if (!saved) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     return res.json({ success: true });
@@ -580,40 +902,55 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/register", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { messaging_product, pin, data_localization_region } = req.body ?? {};
 
     if (messaging_product !== "whatsapp") {
-      return res
-        .status(400)
-        .json({ error: "messaging_product_whatsapp_required" });
+      return sendGraphError(res, "invalid_parameter", {
+        details: "messaging_product must be whatsapp",
+      });
     }
 
     if (typeof pin !== "string" || pin.length !== 6 || !/^\d{6}$/.test(pin)) {
-      return res.status(400).json({ error: "pin_must_be_6_digits" });
+      return sendGraphError(res, "invalid_parameter", {
+        details: "pin must be a 6-digit number",
+      });
     }
 
     let normalizedRegion: string | undefined;
     if (data_localization_region !== undefined) {
       if (typeof data_localization_region !== "string") {
-        return res
-          .status(400)
-          .json({ error: "data_localization_region_must_be_string" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: "data_localization_region must be a string",
+        });
       }
       const upper = data_localization_region.toUpperCase();
       if (!allowedDataLocalizationRegions.has(upper)) {
-        return res
-          .status(400)
-          .json({ error: "unsupported_data_localization_region" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: `Unsupported data_localization_region ${upper}`,
+        });
       }
       normalizedRegion = upper;
     }
 
+    // Re-registering a number with two-step verification needs the same PIN
+    const existingPhone = getPhoneNumber(id);
+    if (
+      existingPhone?.twoStepVerificationPin &&
+      existingPhone.twoStepVerificationPin !== pin
+    ) {
+      return sendGraphError(res, "pin_mismatch", {
+        details: "The PIN doesn't match the two-step verification PIN.",
+      });
+    }
+
     // Ensure the phone exists in state so registration works even if
     // it wasn't created via /api/phone-numbers beforehand.
-    if (!getPhoneNumber(id)) {
+    if (!existingPhone) {
       upsertPhoneNumber({
         id,
         displayPhoneNumber: id,
@@ -634,16 +971,11 @@ export const createGraphRouter = (): Router => {
 
     if (!result.ok) {
       if (result.error === "not_found") {
-        return res.status(404).json({ error: "phone_not_found" });
+        return objectNotFound(req, res);
       }
 
-      return res.status(429).json({
-        error: {
-          message: "Registration limit reached for this phone number",
-          code: 133016,
-          error_subcode: 133016,
-          is_transient: false,
-        },
+      return sendGraphError(res, "registration_rate_limit", {
+        details: "Registration limit reached for this phone number",
         sandbox: {
           retry_after_ms: result.retryAfterMs ?? null,
           attempts_in_window: result.attemptsInWindow ?? null,
@@ -663,23 +995,20 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/deregister", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const result = deregisterPhoneNumber({ id });
 
     if (!result.ok) {
       if (result.error === "not_found") {
-        return res.status(404).json({ error: "phone_not_found" });
+        return objectNotFound(req, res);
       }
 
-      return res.status(429).json({
-        error: {
-          message: "Deregistration limit reached for this phone number",
-          code: 133016,
-          error_subcode: 133016,
-          is_transient: false,
-        },
+      return sendGraphError(res, "registration_rate_limit", {
+        details: "Deregistration limit reached for this phone number",
         sandbox: {
           retry_after_ms: result.retryAfterMs ?? null,
           attempts_in_window: result.attemptsInWindow ?? null,
@@ -691,11 +1020,514 @@ export const createGraphRouter = (): Router => {
     return res.json({ success: true, registration_status: "deregistered" });
   });
 
+  // ----- WhatsApp Flows -----
+
+  const flowAssetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 },
+  });
+
+  const parseFlowCategories = (value: unknown): FlowCategory[] | undefined => {
+    const list = Array.isArray(value)
+      ? value.map((v) => String(v))
+      : parseListParam(value);
+    if (list.length === 0 || !list.every(isFlowCategory)) return undefined;
+    return Array.from(new Set(list as FlowCategory[]));
+  };
+
+  // flow_json may be sent as a string or, for convenience, as a JSON object
+  const readFlowJson = (value: unknown): string | undefined => {
+    if (typeof value === "string") return value;
+    if (value && typeof value === "object") {
+      return JSON.stringify(value, null, 2);
+    }
+    return undefined;
+  };
+
+  const storeFlowJson = (flow: WhatsAppFlow, raw: string): WhatsAppFlow => {
+    const validation = validateFlowJson(raw);
+    return (
+      setFlowJson(flow.id, {
+        flowJson: raw,
+        validationErrors: validation.errors,
+        ...(validation.jsonVersion !== undefined
+          ? { jsonVersion: validation.jsonVersion }
+          : {}),
+        ...(validation.dataApiVersion !== undefined
+          ? { dataApiVersion: validation.dataApiVersion }
+          : {}),
+      }) ?? flow
+    );
+  };
+
+  // Flows that talk to an endpoint need one configured before publishing
+  const flowPublishBlocker = (flow: WhatsAppFlow): string | undefined => {
+    if (!flow.flowJson) return "Upload a flow JSON asset before publishing.";
+    if (flow.validationErrors.length > 0) {
+      return `Flow JSON has ${flow.validationErrors.length} validation error(s).`;
+    }
+    if (flow.dataApiVersion && !flow.endpointUri) {
+      return "Flows with data_api_version need an endpoint_uri.";
+    }
+    return undefined;
+  };
+
+  const formatFlowAssets = (
+    req: Request,
+    flow: WhatsAppFlow
+  ): Array<Record<string, unknown>> =>
+    flow.flowJson
+      ? [
+          {
+            name: "flow.json",
+            asset_type: "FLOW_JSON",
+            download_url: `${req.protocol}://${req.get("host")}${
+              req.baseUrl
+            }/${flow.id}/assets/flow.json`,
+          },
+        ]
+      : [];
+
+  const formatFlow = (
+    req: Request,
+    flow: WhatsAppFlow,
+    fields: string[]
+  ): Record<string, unknown> => {
+    const requested =
+      fields.length > 0
+        ? fields
+        : ["id", "name", "status", "categories", "validation_errors"];
+    const result: Record<string, unknown> = { id: flow.id };
+
+    for (const field of requested) {
+      if (field === "name") result.name = flow.name;
+      if (field === "status") result.status = flow.status;
+      if (field === "categories") result.categories = flow.categories;
+      if (field === "validation_errors") {
+        result.validation_errors = flow.validationErrors;
+      }
+      if (field === "json_version" && flow.jsonVersion) {
+        result.json_version = flow.jsonVersion;
+      }
+      if (field === "data_api_version" && flow.dataApiVersion) {
+        result.data_api_version = flow.dataApiVersion;
+      }
+      if (field === "endpoint_uri" && flow.endpointUri) {
+        result.endpoint_uri = flow.endpointUri;
+      }
+      if (field === "whatsapp_business_account") {
+        result.whatsapp_business_account = { id: flow.wabaId };
+      }
+      if (field === "updated_at") {
+        result.updated_at = new Date(flow.updatedAt).toISOString();
+      }
+      // preview or preview.invalidate(true)
+      if (field.startsWith("preview")) {
+        const preview = getFlowPreview(flow.id, {
+          invalidate: /invalidate\(true\)/.test(field),
+        });
+        if (preview) {
+          result.preview = {
+            preview_url: preview.previewUrl,
+            expires_at: new Date(preview.expiresAt).toISOString(),
+          };
+        }
+      }
+      if (field === "assets") {
+        result.assets = { data: formatFlowAssets(req, flow) };
+      }
+    }
+    return result;
+  };
+
+  // Create a flow: POST /<WABA_ID>/flows
+  router.post("/:id/flows", (req: Request, res: Response) => {
+    const { id } = req.params; // WABA ID
+    if (!id) {
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
+    }
+
+    const { name, categories, endpoint_uri, flow_json, publish } =
+      req.body ?? {};
+    if (typeof name !== "string" || !name.trim()) {
+      return sendGraphError(res, "required_parameter", { param: "name" });
+    }
+    const parsedCategories = parseFlowCategories(categories);
+    if (!parsedCategories) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `categories must be a non-empty list of: ${FLOW_CATEGORIES.join(
+          ", "
+        )}`,
+      });
+    }
+    if (getFlowByName(name, id)) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `A flow named '${name}' already exists for this WhatsApp Business Account.`,
+      });
+    }
+
+    let flow = createFlow({
+      wabaId: id,
+      name,
+      categories: parsedCategories,
+      ...(typeof endpoint_uri === "string" && endpoint_uri
+        ? { endpointUri: endpoint_uri }
+        : {}),
+    });
+
+    const rawJson = readFlowJson(flow_json);
+    if (rawJson !== undefined) {
+      flow = storeFlowJson(flow, rawJson);
+    }
+
+    if (publish === true || publish === "true") {
+      const blocker = flowPublishBlocker(flow);
+      if (blocker) {
+        return sendGraphError(res, "flow_validation_failed", {
+          details: blocker,
+          sandbox: {
+            flow_id: flow.id,
+            validation_errors: flow.validationErrors,
+          },
+        });
+      }
+      flow = setFlowStatus(flow.id, "PUBLISHED") ?? flow;
+    }
+
+    return res.json({
+      id: flow.id,
+      success: true,
+      ...(rawJson !== undefined
+        ? { validation_errors: flow.validationErrors }
+        : {}),
+    });
+  });
+
+  // List flows: GET /<WABA_ID>/flows
+  router.get("/:id/flows", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
+    }
+
+    const fields = parseFieldsParam(req.query.fields);
+    const data = listFlows(id).map((flow) =>
+      formatFlow(
+        req,
+        flow,
+        fields.length > 0 ? fields : ["id", "name", "status", "categories"]
+      )
+    );
+    return res.json({ data });
+  });
+
+  // Upload flow JSON: POST /<FLOW_ID>/assets (multipart `file` or JSON body)
+  router.post("/:id/assets", (req: Request, res: Response) => {
+    flowAssetUpload.single("file")(req, res, (err?: unknown) => {
+      const { id } = req.params;
+      const flow = id ? getFlow(id) : undefined;
+      if (!flow) {
+        return objectNotFound(req, res);
+      }
+      if (err) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: err instanceof Error ? err.message : "Asset upload failed",
+        });
+      }
+
+      const { asset_type, flow_json } = req.body ?? {};
+      if (asset_type !== undefined && asset_type !== "FLOW_JSON") {
+        return sendGraphError(res, "invalid_parameter", {
+          details: "asset_type must be FLOW_JSON",
+        });
+      }
+
+      const rawJson = req.file
+        ? req.file.buffer.toString("utf8")
+        : readFlowJson(flow_json);
+      if (rawJson === undefined) {
+        return sendGraphError(res, "required_parameter", { param: "file" });
+      }
+
+      if (flow.status !== "DRAFT") {
+        return sendGraphError(res, "flow_not_editable", {
+          details: `Flow JSON can only be updated while the flow is in DRAFT status (current: ${flow.status}).`,
+        });
+      }
+
+      const updated = storeFlowJson(flow, rawJson);
+      return res.json({
+        success: true,
+        validation_errors: updated.validationErrors,
+      });
+    });
+  });
+
+  // List flow assets: GET /<FLOW_ID>/assets
+  router.get("/:id/assets", (req: Request, res: Response) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return objectNotFound(req, res);
+    }
+    return res.json({ data: formatFlowAssets(req, flow) });
+  });
+
+  // Download the stored flow JSON (target of assets download_url)
+  router.get("/:id/assets/flow.json", (req: Request, res: Response) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow?.flowJson) {
+      return objectNotFound(req, res);
+    }
+    res.type("application/json");
+    return res.send(flow.flowJson);
+  });
+
+  // Publish a draft flow: POST /<FLOW_ID>/publish
+  router.post("/:id/publish", (req: Request, res: Response) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return objectNotFound(req, res);
+    }
+    if (flow.status !== "DRAFT") {
+      return sendGraphError(res, "flow_invalid_state", {
+        details: `Only DRAFT flows can be published (current: ${flow.status}).`,
+      });
+    }
+
+    const blocker = flowPublishBlocker(flow);
+    if (blocker) {
+      return sendGraphError(res, "flow_validation_failed", {
+        details: blocker,
+        sandbox: { validation_errors: flow.validationErrors },
+      });
+    }
+
+    setFlowStatus(flow.id, "PUBLISHED");
+    return res.json({ success: true });
+  });
+
+  // Deprecate a published flow: POST /<FLOW_ID>/deprecate
+  router.post("/:id/deprecate", (req: Request, res: Response) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return objectNotFound(req, res);
+    }
+    if (flow.status !== "PUBLISHED" && flow.status !== "THROTTLED") {
+      return sendGraphError(res, "flow_invalid_state", {
+        details: `Only PUBLISHED flows can be deprecated (current: ${flow.status}).`,
+      });
+    }
+
+    setFlowStatus(flow.id, "DEPRECATED");
+    return res.json({ success: true });
+  });
+
+  // Flow details: GET /<FLOW_ID> (falls through to media and phone lookups)
+  router.get("/:id", (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return next();
+    }
+    return res.json(formatFlow(req, flow, parseFieldsParam(req.query.fields)));
+  });
+
+  // Update flow metadata: POST /<FLOW_ID>
+  router.post("/:id", (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return next();
+    }
+    if (flow.status === "DEPRECATED") {
+      return sendGraphError(res, "flow_not_editable", {
+        details: "Deprecated flows can't be updated.",
+      });
+    }
+
+    const { name, categories, endpoint_uri } = req.body ?? {};
+    const patch: {
+      name?: string;
+      categories?: FlowCategory[];
+      endpointUri?: string;
+    } = {};
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim()) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: "name must be a non-empty string",
+        });
+      }
+      const existing = getFlowByName(name, flow.wabaId);
+      if (existing && existing.id !== flow.id) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: `A flow named '${name}' already exists for this WhatsApp Business Account.`,
+        });
+      }
+      patch.name = name;
+    }
+    if (categories !== undefined) {
+      const parsedCategories = parseFlowCategories(categories);
+      if (!parsedCategories) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: `categories must be a non-empty list of: ${FLOW_CATEGORIES.join(
+            ", "
+          )}`,
+        });
+      }
+      patch.categories = parsedCategories;
+    }
+    if (endpoint_uri !== undefined) {
+      patch.endpointUri = typeof endpoint_uri === "string" ? endpoint_uri : "";
+    }
+
+    updateFlowMetadata(flow.id, patch);
+    return res.json({ success: true });
+  });
+
+  // Delete a draft flow: DELETE /<FLOW_ID>
+  router.delete("/:id", (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const flow = id ? getFlow(id) : undefined;
+    if (!flow) {
+      return next();
+    }
+    if (flow.status !== "DRAFT") {
+      return sendGraphError(res, "flow_invalid_state", {
+        details: `Only DRAFT flows can be deleted; deprecate published flows instead (current: ${flow.status}).`,
+      });
+    }
+
+    deleteFlow(flow.id);
+    return res.json({ success: true });
+  });
+
+  // ----- Media upload / retrieval -----
+
+  const mediaUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 100 * 1024 * 1024 },
+  });
+
+  // Upload media: POST /<PHONE_ID>/media (multipart/form-data)
+  router.post("/:id/media", (req: Request, res: Response) => {
+    mediaUpload.single("file")(req, res, (err?: unknown) => {
+      const { id } = req.params;
+      if (!id) {
+        return sendGraphError(res, "required_parameter", {
+          param: "phone_number_id",
+        });
+      }
+
+      if (err) {
+        return sendGraphError(res, "media_upload_error", {
+          details: err instanceof Error ? err.message : "Media upload failed",
+        });
+      }
+
+      const phone = getPhoneNumber(id);
+      if (!phone) {
+        return objectNotFound(req, res);
+      }
+
+      const { messaging_product, type } = req.body ?? {};
+      if (messaging_product !== "whatsapp") {
+        return sendGraphError(res, "invalid_parameter", {
+          details: "messaging_product must be whatsapp",
+        });
+      }
+
+      const file = req.file;
+      if (!file) {
+        return sendGraphError(res, "required_parameter", { param: "file" });
+      }
+
+      const mimeType =
+        typeof type === "string" && type ? type : file.mimetype;
+      const maxSize = maxMediaSizeByMimeType(mimeType);
+      if (maxSize === undefined) {
+        return sendGraphError(res, "media_upload_error", {
+          details: `Param file must be a file with one of the following types: ${supportedMediaTypes.join(
+            ", "
+          )}. Received file of type '${mimeType}'.`,
+        });
+      }
+      if (file.size > maxSize) {
+        return sendGraphError(res, "media_upload_error", {
+          details: `Media file size too big. Max file size for ${mimeType} is ${maxSize} bytes.`,
+        });
+      }
+
+      const media = storeMedia({
+        phoneId: id,
+        mimeType,
+        data: file.buffer,
+        ...(file.originalname ? { filename: file.originalname } : {}),
+      });
+
+      return res.json({ id: media.id });
+    });
+  });
+
+  // Retrieve media URL: GET /<MEDIA_ID> (falls through to phone lookup)
+  router.get("/:id", (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const media = id ? getMedia(id) : undefined;
+    if (!media) {
+      return next();
+    }
+
+    const phoneNumberId =
+      typeof req.query.phone_number_id === "string"
+        ? req.query.phone_number_id
+        : undefined;
+    if (phoneNumberId && phoneNumberId !== media.phoneId) {
+      return objectNotFound(req, res);
+    }
+
+    return res.json({
+      messaging_product: "whatsapp",
+      url: createMediaDownloadUrl(
+        media,
+        `${req.protocol}://${req.get("host")}`
+      ),
+      mime_type: media.mimeType,
+      sha256: media.sha256,
+      file_size: media.fileSize,
+      id: media.id,
+    });
+  });
+
+  // Delete media: DELETE /<MEDIA_ID>
+  router.delete("/:id", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", { param: "media_id" });
+    }
+
+    const media = getMedia(id);
+    const phoneNumberId =
+      typeof req.query.phone_number_id === "string"
+        ? req.query.phone_number_id
+        : undefined;
+    if (!media || (phoneNumberId && phoneNumberId !== media.phoneId)) {
+      return objectNotFound(req, res);
+    }
+
+    deleteMedia(id);
+    return res.json({ success: true });
+  });
+
   // Webhook configuration & subscription OR two-step PIN: POST /<PHONE_ID>
   router.post("/:id", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { webhook_configuration, pin } = req.body ?? {};
@@ -703,7 +1535,7 @@ export const createGraphRouter = (): Router => {
     if (typeof pin === "string" && !webhook_configuration) {
       const saved = setTwoStepVerificationPin({ id, pin });
       if (!saved) {
-        return res.status(404).json({ error: "phone_not_found" });
+        return objectNotFound(req, res);
       }
       return res.json({ success: true });
     }
@@ -732,12 +1564,12 @@ export const createGraphRouter = (): Router => {
   router.get("/:id", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "id_required" });
+      return sendGraphError(res, "required_parameter", { param: "id" });
     }
 
     const phone = getPhoneNumber(id);
     if (!phone) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     const fieldsParam =
@@ -768,6 +1600,8 @@ export const createGraphRouter = (): Router => {
             : "NONE";
         } else if (field === "quality_rating") {
           result.quality_rating = phone.qualityRating ?? "UNKNOWN";
+        } else if (field === "messaging_limit_tier") {
+          result.messaging_limit_tier = getMessagingSummaryForPhone(id).tier;
         } else if (field === "verified_name") {
           result.verified_name = phone.verifiedName ?? null;
         } else if (field === "display_phone_number") {
@@ -814,12 +1648,14 @@ export const createGraphRouter = (): Router => {
     (req: Request, res: Response) => {
       const { id } = req.params;
       if (!id) {
-        return res.status(400).json({ error: "phone_id_required" });
+        return sendGraphError(res, "required_parameter", {
+          param: "phone_number_id",
+        });
       }
 
       const phone = getPhoneNumber(id);
       if (!phone) {
-        return res.status(404).json({ error: "phone_not_found" });
+        return objectNotFound(req, res);
       }
 
       const profile = getBusinessProfile(id);
@@ -850,12 +1686,14 @@ export const createGraphRouter = (): Router => {
     (req: Request, res: Response) => {
       const { id } = req.params;
       if (!id) {
-        return res.status(400).json({ error: "phone_id_required" });
+        return sendGraphError(res, "required_parameter", {
+          param: "phone_number_id",
+        });
       }
 
       const phone = getPhoneNumber(id);
       if (!phone) {
-        return res.status(404).json({ error: "phone_not_found" });
+        return objectNotFound(req, res);
       }
 
       const body = req.body ?? {};
@@ -895,30 +1733,468 @@ export const createGraphRouter = (): Router => {
         update.profilePictureId = body.profile_picture_id;
       }
 
-      const profile = upsertBusinessProfile(update);
-
+      const profile = upsertBusinessProfile(update);
+
+      return res.json({
+        data: [
+          {
+            phone_number_id: id,
+            address: profile.address ?? "",
+            description: profile.description ?? "",
+            email: profile.email ?? "",
+            vertical: profile.vertical ?? "",
+            websites: profile.websites ?? [],
+            profile_picture_url: profile.profilePictureUrl ?? null,
+            profile_picture_id: profile.profilePictureId ?? null,
+          },
+        ],
+      });
+    }
+  );
+
+  // ----- Commerce -----
+
+  // GET /<PHONE_ID>/whatsapp_commerce_settings
+  router.get(
+    "/:id/whatsapp_commerce_settings",
+    (req: Request, res: Response) => {
+      const { id } = req.params;
+      if (!id || !getPhoneNumber(id)) {
+        return objectNotFound(req, res);
+      }
+
+      const settings = getCommerceSettings(id);
+      return res.json({
+        data: [
+          {
+            is_cart_enabled: settings.isCartEnabled,
+            is_catalog_visible: settings.isCatalogVisible,
+            id: settings.id,
+          },
+        ],
+      });
+    }
+  );
+
+  // POST /<PHONE_ID>/whatsapp_commerce_settings?is_cart_enabled=...
+  router.post(
+    "/:id/whatsapp_commerce_settings",
+    (req: Request, res: Response) => {
+      const { id } = req.params;
+      if (!id || !getPhoneNumber(id)) {
+        return objectNotFound(req, res);
+      }
+
+      // Graph takes these as query parameters; JSON bodies work too
+      const readFlag = (name: string): boolean | undefined => {
+        const value = req.query[name] ?? req.body?.[name];
+        if (value === true || value === "true") return true;
+        if (value === false || value === "false") return false;
+        return undefined;
+      };
+      const isCartEnabled = readFlag("is_cart_enabled");
+      const isCatalogVisible = readFlag("is_catalog_visible");
+      if (isCartEnabled === undefined && isCatalogVisible === undefined) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: "Provide is_cart_enabled and/or is_catalog_visible",
+        });
+      }
+
+      updateCommerceSettings(id, {
+        ...(isCartEnabled !== undefined ? { isCartEnabled } : {}),
+        ...(isCatalogVisible !== undefined ? { isCatalogVisible } : {}),
+      });
+      return res.json({ success: true });
+    }
+  );
+
+  // GET /<WABA_ID>/product_catalogs – catalogs connected to the WABA
+  router.get("/:id/product_catalogs", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
+    }
+    return res.json({
+      data: listCatalogs(id).map((c) => ({ id: c.id, name: c.name })),
+    });
+  });
+
+  // ----- Calling -----
+
+  // Reads a `session` object, which must carry an SDP of the expected type
+  const readCallSession = (
+    res: Response,
+    session: unknown,
+    sdpType: CallSession["sdp_type"]
+  ): CallSession | undefined => {
+    const value = session as Record<string, unknown> | undefined;
+    if (!value || typeof value !== "object") {
+      sendGraphError(res, "message_param_missing", {
+        details: `'session' with an SDP ${sdpType} is required`,
+      });
+      return undefined;
+    }
+    if (value.sdp_type !== sdpType) {
+      sendGraphError(res, "parameter_value_invalid", {
+        details: `session.sdp_type must be '${sdpType}'`,
+      });
+      return undefined;
+    }
+    // No media is negotiated, but the SDP should at least look like one
+    if (typeof value.sdp !== "string" || !value.sdp.startsWith("v=0")) {
+      sendGraphError(res, "parameter_value_invalid", {
+        details: "session.sdp must be an RFC 8866 SDP starting with 'v=0'",
+      });
+      return undefined;
+    }
+    return { sdp_type: sdpType, sdp: value.sdp };
+  };
+
+  // POST /<PHONE_ID>/calls – call signaling (connect, pre_accept, accept,
+  // reject, terminate). Only SDPs are exchanged; no media is set up.
+  router.post("/:id/calls", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id || !getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const {
+      messaging_product,
+      action,
+      call_id,
+      to,
+      session,
+      biz_opaque_callback_data,
+    } = req.body ?? {};
+    if (messaging_product !== "whatsapp") {
+      return sendGraphError(res, "invalid_parameter", {
+        details: "messaging_product must be whatsapp",
+      });
+    }
+    if (!isCallAction(action)) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `action must be one of ${CALL_ACTIONS.join(", ")}`,
+      });
+    }
+
+    if (action === "connect") {
+      if (getCallingSettings(id).status !== "ENABLED") {
+        return sendGraphError(res, "calling_not_enabled", {
+          details:
+            "Calling is disabled for this phone number. Enable it via POST /<PHONE_ID>/settings",
+        });
+      }
+      if (typeof to !== "string" || !toWaId(to)) {
+        return sendGraphError(res, "message_param_missing", {
+          details: "'to' is required",
+        });
+      }
+      const offer = readCallSession(res, session, "offer");
+      if (!offer) return;
+
+      const waId = toWaId(to);
+      if (findActiveCall(id, waId)) {
+        return sendGraphError(res, "duplicate_call", {
+          details: `There is already an ongoing call with ${waId}`,
+        });
+      }
+
+      const call = createCall({
+        phoneId: id,
+        waId,
+        direction: "BUSINESS_INITIATED",
+        offer,
+        ...(typeof biz_opaque_callback_data === "string" &&
+        biz_opaque_callback_data
+          ? { bizOpaqueCallbackData: biz_opaque_callback_data }
+          : {}),
+      });
+      void forwardCallWebhook({
+        call,
+        statuses: [buildCallStatus(call, "RINGING")],
+        source: "graph-calls",
+      });
+      return res.json({
+        messaging_product: "whatsapp",
+        calls: [{ id: call.id }],
+      });
+    }
+
+    if (typeof call_id !== "string" || !call_id) {
+      return sendGraphError(res, "message_param_missing", {
+        details: "'call_id' is required",
+      });
+    }
+    const call = getCall(call_id);
+    if (!call || call.phoneId !== id) {
+      return sendGraphError(res, "parameter_value_invalid", {
+        details: `Call ${call_id} does not exist for this phone number`,
+      });
+    }
+    if (call.direction === "BUSINESS_INITIATED" && action !== "terminate") {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `'${action}' only applies to user-initiated calls`,
+      });
+    }
+    if (!canApplyCallAction(call, action)) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `Can't ${action} a call that is ${call.state}`,
+        sandbox: { callState: call.state },
+      });
+    }
+
+    let answer: CallSession | undefined;
+    if (action === "pre_accept" || action === "accept") {
+      answer = readCallSession(res, session, "answer");
+      if (!answer) return;
+      // Accepting a pre-accepted call must reuse the same SDP answer
+      if (
+        action === "accept" &&
+        call.state === "pre_accepted" &&
+        call.answer &&
+        call.answer.sdp !== answer.sdp
+      ) {
+        return sendGraphError(res, "parameter_value_invalid", {
+          details: "session.sdp must match the answer sent with pre_accept",
+        });
+      }
+    }
+
+    applyCallAction(call, action, "business", answer);
+    if (!isCallActive(call)) {
+      void forwardCallWebhook({
+        call,
+        calls: [buildCallTerminateEvent(call)],
+        source: "graph-calls",
+      });
+    }
+
+    return res.json({ messaging_product: "whatsapp", success: true });
+  });
+
+  // ----- Prefilled message QR codes -----
+
+  // Images are served by the sandbox itself, next to the code
+  const qrImageUrl = (
+    req: Request,
+    qr: PrefilledMessageQrCode,
+    format: QrImageFormat
+  ): string =>
+    `${req.protocol}://${req.get("host")}${req.baseUrl}/${
+      qr.phoneId
+    }/message_qrdls/${qr.code}/qr.${format.toLowerCase()}`;
+
+  const formatQrCode = (
+    req: Request,
+    qr: PrefilledMessageQrCode,
+    format?: QrImageFormat
+  ): Record<string, unknown> => ({
+    code: qr.code,
+    prefilled_message: qr.prefilledMessage,
+    deep_link_url: getDeepLinkUrl(qr.code),
+    ...(format ? { qr_image_url: qrImageUrl(req, qr, format) } : {}),
+  });
+
+  // `fields=qr_image_url.format(SVG)` asks for image URLs on reads
+  const requestedQrImageFormat = (
+    fields: unknown
+  ): QrImageFormat | "invalid" | undefined => {
+    const field = parseFieldsParam(fields).find((f) =>
+      f.startsWith("qr_image_url")
+    );
+    if (!field) return undefined;
+    const format = /\.format\((\w+)\)/.exec(field)?.[1]?.toUpperCase() ?? "PNG";
+    return isQrImageFormat(format) ? format : "invalid";
+  };
+
+  // POST /<PHONE_ID>/message_qrdls – create a code, or update one via `code`
+  router.post("/:id/message_qrdls", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id || !getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    // Graph takes these as query parameters; JSON bodies work too
+    const read = (name: string): unknown => req.query[name] ?? req.body?.[name];
+    const prefilledMessage = read("prefilled_message");
+    const generateQrImage = read("generate_qr_image");
+    const code = read("code");
+
+    if (typeof prefilledMessage !== "string" || !prefilledMessage.trim()) {
+      return sendGraphError(res, "required_parameter", {
+        param: "prefilled_message",
+      });
+    }
+    if (prefilledMessage.length > MAX_PREFILLED_MESSAGE_LENGTH) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: `prefilled_message must be at most ${MAX_PREFILLED_MESSAGE_LENGTH} characters`,
+      });
+    }
+
+    let imageFormat: QrImageFormat | undefined;
+    if (generateQrImage !== undefined) {
+      const format =
+        typeof generateQrImage === "string"
+          ? generateQrImage.toUpperCase()
+          : generateQrImage;
+      if (!isQrImageFormat(format)) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: `generate_qr_image must be one of ${QR_IMAGE_FORMATS.join(
+            ", "
+          )}`,
+        });
+      }
+      imageFormat = format;
+    }
+
+    let qr: PrefilledMessageQrCode;
+    if (code !== undefined) {
+      const existing =
+        typeof code === "string" ? getQrCode(id, code) : undefined;
+      if (!existing) {
+        return objectNotFound(req, res, String(code));
+      }
+      qr = updateQrCode(existing, {
+        prefilledMessage,
+        ...(imageFormat ? { imageFormat } : {}),
+      });
+    } else {
+      qr = createQrCode({
+        phoneId: id,
+        prefilledMessage,
+        ...(imageFormat ? { imageFormat } : {}),
+      });
+    }
+
+    return res.json(formatQrCode(req, qr, imageFormat));
+  });
+
+  // GET /<PHONE_ID>/message_qrdls
+  router.get("/:id/message_qrdls", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id || !getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const format = requestedQrImageFormat(req.query.fields);
+    if (format === "invalid") {
+      return sendGraphError(res, "invalid_parameter", {
+        details: "qr_image_url.format must be PNG or SVG",
+      });
+    }
+    return res.json({
+      data: listQrCodes(id).map((qr) => formatQrCode(req, qr, format)),
+    });
+  });
+
+  // GET /<PHONE_ID>/message_qrdls/<CODE>
+  router.get("/:id/message_qrdls/:code", (req: Request, res: Response) => {
+    const { id, code } = req.params;
+    const qr = id && code ? getQrCode(id, code) : undefined;
+    if (!qr) {
+      return objectNotFound(req, res, code);
+    }
+
+    const format = requestedQrImageFormat(req.query.fields);
+    if (format === "invalid") {
+      return sendGraphError(res, "invalid_parameter", {
+        details: "qr_image_url.format must be PNG or SVG",
+      });
+    }
+    return res.json({ data: [formatQrCode(req, qr, format)] });
+  });
+
+  // GET /<PHONE_ID>/message_qrdls/<CODE>/qr.png|qr.svg – the rendered image
+  router.get(
+    "/:id/message_qrdls/:code/qr.:format",
+    async (req: Request, res: Response) => {
+      const { id, code } = req.params;
+      const qr = id && code ? getQrCode(id, code) : undefined;
+      const format = req.params.format?.toUpperCase();
+      if (!qr || !isQrImageFormat(format)) {
+        return objectNotFound(req, res, code);
+      }
+
+      const image = await renderQrImage(getDeepLinkUrl(qr.code), format);
+      res.setHeader("Content-Type", image.contentType);
+      return res.send(image.body);
+    }
+  );
+
+  // DELETE /<PHONE_ID>/message_qrdls/<CODE>
+  router.delete("/:id/message_qrdls/:code", (req: Request, res: Response) => {
+    const { id, code } = req.params;
+    if (!id || !code || !deleteQrCode(id, code)) {
+      return objectNotFound(req, res, code);
+    }
+    return res.json({ success: true });
+  });
+
+  // ----- Flow endpoint encryption -----
+
+  // GET /<PHONE_ID>/whatsapp_business_encryption
+  router.get(
+    "/:id/whatsapp_business_encryption",
+    (req: Request, res: Response) => {
+      const { id } = req.params;
+      if (!id || !getPhoneNumber(id)) {
+        return objectNotFound(req, res);
+      }
+
+      const key = getBusinessEncryptionKey(id);
       return res.json({
-        data: [
-          {
-            phone_number_id: id,
-            address: profile.address ?? "",
-            description: profile.description ?? "",
-            email: profile.email ?? "",
-            vertical: profile.vertical ?? "",
-            websites: profile.websites ?? [],
-            profile_picture_url: profile.profilePictureUrl ?? null,
-            profile_picture_id: profile.profilePictureId ?? null,
-          },
-        ],
+        data: key
+          ? [
+              {
+                business_public_key: key.publicKey,
+                business_public_key_signature_status: key.signatureStatus,
+              },
+            ]
+          : [],
       });
     }
   );
 
+  // POST /<PHONE_ID>/whatsapp_business_encryption (form or JSON body)
+  router.post(
+    "/:id/whatsapp_business_encryption",
+    mediaUpload.none(),
+    (req: Request, res: Response) => {
+      const { id } = req.params;
+      if (!id || !getPhoneNumber(id)) {
+        return objectNotFound(req, res);
+      }
+
+      const { business_public_key } = req.body ?? {};
+      if (typeof business_public_key !== "string" || !business_public_key) {
+        return sendGraphError(res, "required_parameter", {
+          param: "business_public_key",
+        });
+      }
+
+      try {
+        const key = crypto.createPublicKey(business_public_key);
+        if (key.asymmetricKeyType !== "rsa") {
+          throw new Error("Only RSA keys are supported");
+        }
+      } catch (err) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: `business_public_key must be a PEM-encoded RSA public key: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        });
+      }
+
+      setBusinessEncryptionKey({ phoneId: id, publicKey: business_public_key });
+      return res.json({ success: true });
+    }
+  );
+
   // Example: GET /<WABA_ID>/phone_numbers (approximate)
   router.get("/:id/phone_numbers", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
 
     let phones = listPhoneNumbers().filter((p) => p.wabaId === id);
@@ -992,22 +2268,34 @@ export const createGraphRouter = (): Router => {
   router.get("/:id/messaging_limits", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const phone = getPhoneNumber(id);
     if (!phone) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     const summary = getMessagingSummaryForPhone(id);
     return res.json({
       data: {
         phone_number_id: id,
+        scope: summary.scope,
+        business_id: summary.businessId ?? null,
         tier: summary.tier,
         window_ms: summary.windowMs,
         unique_recipients_in_window: summary.windowUniqueRecipients,
         max_unique_recipients: summary.limitUniqueRecipients,
+        business_initiated: {
+          unique_recipients: summary.windowUniqueRecipients,
+          messages: summary.windowBusinessInitiatedSends,
+        },
+        user_initiated: {
+          unique_recipients: summary.windowUserInitiatedUniqueRecipients,
+          messages: summary.windowUserInitiatedSends,
+        },
         total_cost_usd: summary.totalCostUsd,
       },
     });
@@ -1018,7 +2306,7 @@ export const createGraphRouter = (): Router => {
   router.get("/:id/conversation_analytics", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "id_required" });
+      return sendGraphError(res, "required_parameter", { param: "id" });
     }
 
     const now = Date.now();
@@ -1026,9 +2314,8 @@ export const createGraphRouter = (): Router => {
     const end = parseTimeMs(req.query.end) ?? now;
 
     if (start > end) {
-      return res.status(400).json({
-        error: "start_after_end",
-        message: "start must be before end",
+      return sendGraphError(res, "invalid_parameter", {
+        details: "start must be before end",
       });
     }
 
@@ -1053,10 +2340,17 @@ export const createGraphRouter = (): Router => {
       MARKETING: 0,
       UTILITY: 0,
       AUTHENTICATION: 0,
+      SERVICE: 0,
       UNKNOWN: 0,
     };
     const recipients = new Set<string>();
     let totalCost = 0;
+    let billableCount = 0;
+    const pricingTypeCounts: Record<PricingType, number> = {
+      regular: 0,
+      free_customer_service: 0,
+      free_entry_point: 0,
+    };
 
     for (const event of events) {
       if (categoryCounts[event.category] === undefined) {
@@ -1066,6 +2360,8 @@ export const createGraphRouter = (): Router => {
       }
       totalCost += event.costUsd;
       recipients.add(event.to);
+      if (event.pricing.billable) billableCount += 1;
+      pricingTypeCounts[event.pricing.type] += 1;
     }
 
     const responseEntry = {
@@ -1080,6 +2376,13 @@ export const createGraphRouter = (): Router => {
         by_category: categoryCounts,
       },
       unique_recipients: recipients.size,
+      pricing: {
+        pricing_model: "PMP",
+        volume: events.length,
+        billable: billableCount,
+        free: events.length - billableCount,
+        by_pricing_type: pricingTypeCounts,
+      },
       cost: {
         total_cost_usd: Number(totalCost.toFixed(4)),
       },
@@ -1100,7 +2403,7 @@ export const createGraphRouter = (): Router => {
   router.get("/:id/marketing_analytics", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "id_required" });
+      return sendGraphError(res, "required_parameter", { param: "id" });
     }
 
     const now = Date.now();
@@ -1108,9 +2411,8 @@ export const createGraphRouter = (): Router => {
     const end = parseTimeMs(req.query.end) ?? now;
 
     if (start > end) {
-      return res.status(400).json({
-        error: "start_after_end",
-        message: "start must be before end",
+      return sendGraphError(res, "invalid_parameter", {
+        details: "start must be before end",
       });
     }
 
@@ -1201,12 +2503,20 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/messages", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const phone = getPhoneNumber(id);
     if (!phone) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
+    }
+
+    if (isDeregistered(phone)) {
+      return sendGraphError(res, "account_not_registered", {
+        details: `Phone number ${id} was deregistered. Register it again via POST /<PHONE_ID>/register before sending.`,
+      });
     }
 
     const body = req.body ?? {};
@@ -1223,15 +2533,64 @@ export const createGraphRouter = (): Router => {
     // https://developers.facebook.com/documentation/business-messaging/whatsapp/typing-indicators
     if (type === "typing") {
       if (typeof to !== "string" || !to) {
-        return res
-          .status(400)
-          .json({ error: "to_required_for_typing_indicator" });
+        return sendGraphError(res, "required_parameter", { param: "to" });
       }
       return res.json({ success: true });
     }
 
-    if (typeof to !== "string" || !to) {
-      return res.status(400).json({ error: "to_required" });
+    if (typeof to !== "string" || !toWaId(to)) {
+      return sendGraphError(res, "required_parameter", { param: "to" });
+    }
+    const waId = toWaId(to);
+
+    // Blocked users (sandbox policy or block_users) can't be messaged
+    const policy = evaluatePolicyForWaId(waId, { phoneId: id });
+    if (!policy.allowed) {
+      return sendGraphError(res, "message_undeliverable", {
+        details: "Message failed to send because the recipient is blocked.",
+        sandbox: { policy },
+      });
+    }
+
+    // Media sent by ID must reference something uploaded via POST /<PHONE_ID>/media
+    if (
+      type === "image" ||
+      type === "document" ||
+      type === "audio" ||
+      type === "video" ||
+      type === "sticker"
+    ) {
+      const mediaObject = body[type];
+      const mediaId =
+        mediaObject && typeof mediaObject === "object"
+          ? (mediaObject as any).id
+          : undefined;
+      if (mediaId !== undefined) {
+        const media = getMedia(String(mediaId));
+        if (!media) {
+          return sendGraphError(res, "parameter_value_invalid", {
+            details: `Media id ${String(mediaId)} not found`,
+          });
+        }
+        // Media IDs only work for the phone number that uploaded them
+        if (media.phoneId !== id) {
+          return sendGraphError(res, "parameter_value_invalid", {
+            details: `Media id ${String(mediaId)} was uploaded by another phone number`,
+          });
+        }
+      }
+    }
+
+    // Free-form (non-template) messages need an open 24h customer service window
+    const serviceWindow = evaluateServiceWindow({ phoneId: id, waId });
+    if (type !== "template" && !serviceWindow.open) {
+      return sendGraphError(res, "re_engagement_message", {
+        details:
+          "Message failed to send because more than 24 hours have passed since the customer last replied to this number.",
+        sandbox: {
+          service_window: serviceWindow,
+        },
+      });
     }
 
     const flowInteractive =
@@ -1242,7 +2601,105 @@ export const createGraphRouter = (): Router => {
         ? (interactive as Record<string, unknown>)
         : undefined;
 
-    let category: ConversationCategory = flowInteractive ? "UTILITY" : "UNKNOWN";
+    // Flow sends reference a flow by ID or name, either in
+    // `action.parameters` (Cloud API shape) or on the interactive object
+    let flowParams: Record<string, unknown> | undefined;
+    let sentFlow: WhatsAppFlow | undefined;
+    if (flowInteractive) {
+      const action = flowInteractive.action as Record<string, any> | undefined;
+      const parameters =
+        action?.parameters && typeof action.parameters === "object"
+          ? (action.parameters as Record<string, unknown>)
+          : {};
+      flowParams = { ...flowInteractive, ...parameters };
+
+      const flowId =
+        flowParams.flow_id !== undefined ? String(flowParams.flow_id) : "";
+      const flowName =
+        typeof flowParams.flow_name === "string" ? flowParams.flow_name : "";
+      if (!flowId && !flowName) {
+        return sendGraphError(res, "required_parameter", { param: "flow_id" });
+      }
+
+      sentFlow = flowId
+        ? getFlow(flowId)
+        : getFlowByName(flowName, phone.wabaId);
+      if (!sentFlow || (phone.wabaId && sentFlow.wabaId !== phone.wabaId)) {
+        return sendGraphError(res, "parameter_value_invalid", {
+          details: `Flow ${flowId || flowName} does not exist for this WhatsApp Business Account.`,
+        });
+      }
+
+      // Draft flows can only be sent for testing with mode=draft
+      const draftMode = flowParams.mode === "draft";
+      const sendable =
+        sentFlow.status === "PUBLISHED" ||
+        sentFlow.status === "THROTTLED" ||
+        (draftMode && sentFlow.status === "DRAFT");
+      if (!sendable) {
+        return sendGraphError(res, "parameter_value_invalid", {
+          details:
+            sentFlow.status === "DRAFT"
+              ? `Flow ${sentFlow.id} is in DRAFT status. Publish it or send with mode "draft".`
+              : `Flow ${sentFlow.id} is in ${sentFlow.status} status and can't be sent.`,
+          sandbox: { flow_id: sentFlow.id, flow_status: sentFlow.status },
+        });
+      }
+    }
+
+    // Single- and multi-product messages must match the connected catalog
+    let productValidation: ProductMessageValidation | undefined;
+    if (
+      type === "interactive" &&
+      interactive &&
+      typeof interactive === "object" &&
+      ((interactive as any).type === "product" ||
+        (interactive as any).type === "product_list")
+    ) {
+      productValidation = validateProductMessage(
+        id,
+        interactive as Record<string, any>
+      );
+      if (!productValidation.ok) {
+        return sendGraphError(res, productValidation.key, {
+          details: productValidation.details,
+        });
+      }
+    }
+
+    // Payments: order_details opens an order, order_status moves it along
+    const interactiveType =
+      type === "interactive" && interactive && typeof interactive === "object"
+        ? (interactive as any).type
+        : undefined;
+    let orderDetails: OrderDetailsValidation | undefined;
+    let orderStatusUpdate: OrderStatusValidation | undefined;
+    if (interactiveType === "order_details") {
+      orderDetails = validateOrderDetailsMessage(
+        id,
+        interactive as Record<string, any>
+      );
+      if (!orderDetails.ok) {
+        return sendGraphError(res, orderDetails.key, {
+          details: orderDetails.details,
+        });
+      }
+    } else if (interactiveType === "order_status") {
+      orderStatusUpdate = validateOrderStatusMessage(
+        id,
+        interactive as Record<string, any>
+      );
+      if (!orderStatusUpdate.ok) {
+        return sendGraphError(res, orderStatusUpdate.key, {
+          details: orderStatusUpdate.details,
+        });
+      }
+    }
+
+    // Free-form messages (including flows) are service messages under PMP
+    let category: ConversationCategory =
+      type === "template" ? "UNKNOWN" : "SERVICE";
+    let renderedTemplate: RenderedTemplate | undefined;
     if (type === "template" && template && typeof template === "object") {
       const tplCategory = (template as any).category;
       if (typeof tplCategory === "string") {
@@ -1256,100 +2713,146 @@ export const createGraphRouter = (): Router => {
         }
       }
 
-      if (category === "UNKNOWN") {
-        const tplName = (template as any).name;
-        const languageObj = (template as any).language;
-        const languageCode =
-          languageObj &&
-          typeof languageObj === "object" &&
-          typeof (languageObj as any).code === "string"
-            ? (languageObj as any).code
-            : undefined;
-
-        if (typeof tplName === "string") {
-          const wabaId = phone.wabaId;
-          const storedTemplate = getTemplateByName(
-            tplName,
-            languageCode,
-            typeof wabaId === "string" ? wabaId : undefined
-          );
+      const tplName = (template as any).name;
+      const languageObj = (template as any).language;
+      const languageCode =
+        languageObj &&
+        typeof languageObj === "object" &&
+        typeof (languageObj as any).code === "string"
+          ? (languageObj as any).code
+          : undefined;
+
+      const wabaId = phone.wabaId;
+      const storedTemplate =
+        typeof tplName === "string"
+          ? getTemplateByName(
+              tplName,
+              languageCode,
+              typeof wabaId === "string" ? wabaId : undefined
+            )
+          : undefined;
+
+      if (storedTemplate) {
+        if (storedTemplate.status !== "APPROVED") {
+          return sendTemplateUnavailable(res, storedTemplate);
+        }
+        const storedCategory = storedTemplate.category;
+        if (
+          category === "UNKNOWN" &&
+          (storedCategory === "MARKETING" ||
+            storedCategory === "UTILITY" ||
+            storedCategory === "AUTHENTICATION")
+        ) {
+          category = storedCategory;
+        }
 
-          if (storedTemplate) {
-            if (storedTemplate.status !== "APPROVED") {
-              return res.status(400).json({
-                error: "template_not_approved",
-                sandbox: {
-                  template_id: storedTemplate.id,
-                  status: storedTemplate.status,
-                  rejection_reason: storedTemplate.rejectionReason ?? null,
-                },
-              });
-            }
-            const storedCategory = storedTemplate.category;
-            if (
-              storedCategory === "MARKETING" ||
-              storedCategory === "UTILITY" ||
-              storedCategory === "AUTHENTICATION"
-            ) {
-              category = storedCategory;
+        // Check components[].parameters against the stored placeholders
+        const renderResult = renderTemplateMessage(
+          storedTemplate,
+          (template as any).components
+        );
+        if (!renderResult.ok) {
+          return sendGraphError(
+            res,
+            renderResult.error.code === 132000
+              ? "template_param_count_mismatch"
+              : "template_param_format_mismatch",
+            {
+              message: renderResult.error.message,
+              details: renderResult.error.details,
+              sandbox: {
+                template_id: storedTemplate.id,
+              },
             }
-          }
+          );
         }
+        renderedTemplate = renderResult.rendered;
       }
     }
 
     const evaluation = evaluateMessagingLimit({
       phoneId: id,
-      to,
+      to: waId,
+      inServiceWindow: serviceWindow.open,
     });
 
     if (!evaluation.allowed) {
-      return res.status(429).json({
-        error: {
-          message: "Messaging limit reached for this phone number",
-          type: "OAuthException",
-          code: 131048,
-          error_subcode: 2494098,
-          is_transient: false,
-          error_user_title: "Messaging limit exceeded",
-          error_user_msg:
-            "You have reached the maximum number of unique recipients for this phone number in the last 24 hours in the sandbox.",
-        },
-        sandbox: {
-          tier: evaluation.tier,
-          unique_recipients_in_window:
-            evaluation.windowUniqueRecipients,
-          max_unique_recipients: evaluation.limitUniqueRecipients,
-          reason: evaluation.reason,
-        },
-      });
+      return sendMessagingLimitError(res, evaluation);
     }
 
+    const messageId = createMessageId("OUT");
+
+    // A reply to an ad referral may open the free entry point window
+    const freeEntryPoint = recordBusinessReply({ phoneId: id, waId });
     const registered = registerSend({
       phoneId: id,
-      to,
+      to: waId,
       category,
+      messageId,
+      inServiceWindow: serviceWindow.open,
+      inFreeEntryPoint: freeEntryPoint.freeEntryPointOpen,
     });
 
-    const messageId = `wamid.SANDBOX-OUT-${Date.now()}`;
+    if (renderedTemplate) {
+      trackTemplateSend(renderedTemplate.template_id);
+    }
+    recordPhoneSignal(id, "send");
+    maybeAutoUpgradeTier(id);
+
+    scheduleStatusLifecycle({ phoneId: id, messageId, recipientId: waId });
 
     const sandboxDetails: Record<string, unknown> = {
       cost_usd: registered.event.costUsd,
+      pricing: registered.event.pricing,
+      initiator: registered.event.initiator,
       total_cost_usd: registered.state.totalCostUsd,
       tier: registered.state.tier,
     };
 
-    if (flowInteractive) {
+    if (renderedTemplate) {
+      sandboxDetails.rendered_template = renderedTemplate;
+    }
+
+    if (productValidation?.ok) {
+      sandboxDetails.products = {
+        catalog_id: productValidation.catalogId,
+        product_retailer_ids: productValidation.products.map(
+          (p) => p.retailerId
+        ),
+        unavailable_product_retailer_ids: productValidation.unavailable,
+      };
+    }
+
+    if (orderDetails?.ok) {
+      const order = createOrder({
+        referenceId: orderDetails.referenceId,
+        phoneId: id,
+        to: waId,
+        messageId,
+        currency: orderDetails.currency,
+        totalAmount: orderDetails.totalAmount,
+        ...(orderDetails.paymentMethod
+          ? { paymentMethod: orderDetails.paymentMethod }
+          : {}),
+      });
+      sandboxDetails.order = order;
+    } else if (orderStatusUpdate?.ok) {
+      sandboxDetails.order = setOrderStatus(
+        orderStatusUpdate.order,
+        orderStatusUpdate.status
+      );
+    }
+
+    if (flowParams && sentFlow) {
       sandboxDetails.flow = {
         type: "flow",
-        flow_id:
-          (flowInteractive as any).flow_id ??
-          (flowInteractive as any).id ??
-          null,
-        flow_token: (flowInteractive as any).flow_token ?? null,
-        flow_action: (flowInteractive as any).flow_action ?? null,
-        flow_action_payload:
-          (flowInteractive as any).flow_action_payload ?? null,
+        flow_id: sentFlow.id,
+        flow_name: sentFlow.name,
+        flow_status: sentFlow.status,
+        mode: flowParams.mode === "draft" ? "draft" : "published",
+        flow_token: flowParams.flow_token ?? null,
+        flow_action: flowParams.flow_action ?? null,
+        flow_action_payload: flowParams.flow_action_payload ?? null,
       };
     }
 
@@ -1364,16 +2867,22 @@ export const createGraphRouter = (): Router => {
         template,
         interactive,
         category,
+        ...(renderedTemplate ? { rendered_template: renderedTemplate } : {}),
         sender: req.ip || "unknown",
         user_agent:
           typeof req.headers["user-agent"] === "string"
             ? req.headers["user-agent"]
             : undefined,
         request_body: body,
+        service_window: {
+          open: serviceWindow.open,
+          expires_at: serviceWindow.expiresAt,
+        },
+        pricing: registered.event.pricing,
         messaging_limit: {
           tier: registered.state.tier,
           unique_recipients_in_window:
-            registered.state.uniqueRecipientsInWindow,
+            getMessagingSummaryForPhone(id).windowUniqueRecipients,
         },
       },
     });
@@ -1395,12 +2904,20 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/marketing_messages", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const phone = getPhoneNumber(id);
     if (!phone) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
+    }
+
+    if (isDeregistered(phone)) {
+      return sendGraphError(res, "account_not_registered", {
+        details: `Phone number ${id} was deregistered. Register it again via POST /<PHONE_ID>/register before sending.`,
+      });
     }
 
     const body = req.body ?? {};
@@ -1414,15 +2931,18 @@ export const createGraphRouter = (): Router => {
     } = body;
 
     if (messaging_product && messaging_product !== "whatsapp") {
-      return res.status(400).json({ error: "messaging_product_whatsapp_only" });
+      return sendGraphError(res, "invalid_parameter", {
+        details: "messaging_product must be whatsapp",
+      });
     }
 
-    if (typeof to !== "string" || !to) {
-      return res.status(400).json({ error: "to_required" });
+    if (typeof to !== "string" || !toWaId(to)) {
+      return sendGraphError(res, "required_parameter", { param: "to" });
     }
+    const waId = toWaId(to);
 
     if (type !== "template" || !template || typeof template !== "object") {
-      return res.status(400).json({ error: "template_payload_required" });
+      return sendGraphError(res, "required_parameter", { param: "template" });
     }
 
     // Parse send_at if provided (accept seconds or milliseconds)
@@ -1441,67 +2961,47 @@ export const createGraphRouter = (): Router => {
         : undefined;
 
     if (typeof templateName !== "string") {
-      return res.status(400).json({ error: "template.name_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "template.name",
+      });
     }
 
     // Contact-level policy and marketing opt-in checks
-    const policy = evaluatePolicyForWaId(to);
+    const policy = evaluatePolicyForWaId(waId, { phoneId: id });
     if (!policy.allowed) {
-      return res.status(403).json({
-        error: "contact_blocked_by_policy",
+      return sendGraphError(res, "message_undeliverable", {
+        details: "The recipient is blocked by the sandbox contact policy.",
         sandbox: { policy },
       });
     }
 
-    const marketingEligibility = evaluateMarketingEligibility(to);
+    const marketingEligibility = evaluateMarketingEligibility(waId);
     if (!marketingEligibility.allowed) {
-      return res.status(403).json({
-        error: "marketing_opt_in_required",
+      return sendGraphError(res, "marketing_opted_out", {
         sandbox: { marketing: marketingEligibility },
       });
     }
 
     // Frequency cap for marketing sends
-    const frequency = evaluateMarketingFrequency({ phoneId: id, to });
+    const frequency = evaluateMarketingFrequency({ phoneId: id, to: waId });
     if (!frequency.allowed) {
-      return res.status(429).json({
-        error: {
-          message: "Marketing frequency cap reached for this recipient",
-          type: "OAuthException",
-          code: 131051,
-          error_subcode: 2495001,
-          is_transient: false,
-        },
+      return sendGraphError(res, "ecosystem_engagement", {
+        details: "Marketing frequency cap reached for this recipient",
         sandbox: { frequency },
       });
     }
 
     // Apply messaging limits as well so the sandbox stays consistent
+    const serviceWindow = evaluateServiceWindow({ phoneId: id, waId });
+    const inServiceWindow = serviceWindow.open;
     const messagingLimitEvaluation = evaluateMessagingLimit({
       phoneId: id,
-      to,
+      to: waId,
+      inServiceWindow,
     });
 
     if (!messagingLimitEvaluation.allowed) {
-      return res.status(429).json({
-        error: {
-          message: "Messaging limit reached for this phone number",
-          type: "OAuthException",
-          code: 131048,
-          error_subcode: 2494098,
-          is_transient: false,
-          error_user_title: "Messaging limit exceeded",
-          error_user_msg:
-            "You have reached the maximum number of unique recipients for this phone number in the last 24 hours in the sandbox.",
-        },
-        sandbox: {
-          tier: messagingLimitEvaluation.tier,
-          unique_recipients_in_window:
-            messagingLimitEvaluation.windowUniqueRecipients,
-          max_unique_recipients: messagingLimitEvaluation.limitUniqueRecipients,
-          reason: messagingLimitEvaluation.reason,
-        },
-      });
+      return sendMessagingLimitError(res, messagingLimitEvaluation);
     }
 
     // Resolve category if the template already exists
@@ -1514,34 +3014,40 @@ export const createGraphRouter = (): Router => {
     );
     if (storedTemplate) {
       if (storedTemplate.status !== "APPROVED") {
-        return res.status(400).json({
-          error: "template_not_approved",
-          sandbox: {
-            template_id: storedTemplate.id,
-            status: storedTemplate.status,
-            rejection_reason: storedTemplate.rejectionReason ?? null,
-          },
-        });
+        return sendTemplateUnavailable(res, storedTemplate);
       }
       category = storedTemplate.category;
     }
 
     const marketingRecord = registerMarketingSend({
       phoneId: id,
-      to,
+      to: waId,
       templateName,
       ...(languageCode ? { languageCode } : {}),
       category,
       ...(sendAtMs !== undefined ? { sendAt: sendAtMs } : {}),
     });
 
+    const messageId = createMessageId("MKT");
+
+    // A reply to an ad referral may open the free entry point window
+    const freeEntryPoint = recordBusinessReply({ phoneId: id, waId });
     const registered = registerSend({
       phoneId: id,
-      to,
+      to: waId,
       category,
+      messageId,
+      inServiceWindow,
+      inFreeEntryPoint: freeEntryPoint.freeEntryPointOpen,
     });
 
-    const messageId = `wamid.SANDBOX-MKT-${Date.now()}`;
+    if (storedTemplate) {
+      trackTemplateSend(storedTemplate.id);
+    }
+    recordPhoneSignal(id, "send");
+    maybeAutoUpgradeTier(id);
+
+    scheduleStatusLifecycle({ phoneId: id, messageId, recipientId: waId });
 
     return res.status(200).json({
       messages: [
@@ -1552,7 +3058,7 @@ export const createGraphRouter = (): Router => {
       contacts: [
         {
           input: to,
-          wa_id: to,
+          wa_id: waId,
         },
       ],
       customer_observable_action: customer_observable_action ?? null,
@@ -1563,8 +3069,10 @@ export const createGraphRouter = (): Router => {
         messaging_limit: {
           tier: registered.state.tier,
           total_cost_usd: registered.state.totalCostUsd,
-          unique_recipients_in_window: registered.state.sends.length,
+          unique_recipients_in_window:
+            getMessagingSummaryForPhone(id).windowUniqueRecipients,
         },
+        pricing: registered.event.pricing,
         marketing_record: marketingRecord,
       },
     });
@@ -1573,7 +3081,7 @@ export const createGraphRouter = (): Router => {
   router.get("/:id/message_templates", (req: Request, res: Response) => {
     const { id } = req.params; // WABA ID
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
 
     const fields = parseFieldsParam(req.query.fields);
@@ -1732,14 +3240,14 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/message_templates", (req: Request, res: Response) => {
     const { id } = req.params; // WABA ID
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
 
     const { name, language, category, components, status, rejection_reason } =
       req.body ?? {};
     if (typeof name !== "string" || typeof language !== "string") {
-      return res.status(400).json({
-        error: "name_and_language_required",
+      return sendGraphError(res, "required_parameter", {
+        param: typeof name !== "string" ? "name" : "language",
       });
     }
 
@@ -1747,8 +3255,8 @@ export const createGraphRouter = (): Router => {
     const extracted = extractTextFromComponents(sanitizedComponents);
 
     if (!extracted.bodyText) {
-      return res.status(400).json({
-        error: "BODY_component_with_text_required",
+      return sendGraphError(res, "invalid_parameter", {
+        details: "A BODY component with text is required",
       });
     }
 
@@ -1789,6 +3297,8 @@ export const createGraphRouter = (): Router => {
       }
 
       const tpl = createTemplate(templateInput);
+      const reviewScheduled =
+        tpl.status === "PENDING" && scheduleTemplateReview(tpl.id);
 
       return res.status(201).json({
         id: tpl.id,
@@ -1798,12 +3308,17 @@ export const createGraphRouter = (): Router => {
         components: tpl.components,
         sandbox: {
           status_history: tpl.statusHistory,
+          review: {
+            scheduled: reviewScheduled,
+            delay_ms: reviewScheduled
+              ? getTemplateReviewConfig().delayMs
+              : null,
+          },
         },
       });
     } catch (err) {
-      return res.status(400).json({
-        error: "template_creation_failed",
-        message: err instanceof Error ? err.message : "unknown_error",
+      return sendGraphError(res, "invalid_parameter", {
+        details: err instanceof Error ? err.message : "unknown_error",
       });
     }
   });
@@ -1813,17 +3328,19 @@ export const createGraphRouter = (): Router => {
     (req: Request, res: Response) => {
       const { id, templateId } = req.params;
       if (!id || !templateId) {
-        return res.status(400).json({ error: "waba_id_and_template_id_required" });
+        return sendGraphError(res, "required_parameter", {
+          param: "template_id",
+        });
       }
 
       const tpl = getTemplateById(templateId);
       if (!tpl || (tpl.wabaId && tpl.wabaId !== id)) {
-        return res.status(404).json({ error: "template_not_found" });
+        return objectNotFound(req, res, templateId);
       }
 
       const { status, rejection_reason, rejection_note } = req.body ?? {};
       if (typeof status !== "string") {
-        return res.status(400).json({ error: "status_required" });
+        return sendGraphError(res, "required_parameter", { param: "status" });
       }
 
       const normalizedStatus = normalizeTemplateStatus(status, tpl.status);
@@ -1846,7 +3363,7 @@ export const createGraphRouter = (): Router => {
       );
 
       if (!updated) {
-        return res.status(404).json({ error: "template_not_found" });
+        return objectNotFound(req, res, templateId);
       }
 
       return res.json({
@@ -1859,7 +3376,7 @@ export const createGraphRouter = (): Router => {
   router.delete("/:id/message_templates", (req: Request, res: Response) => {
     const { id } = req.params; // WABA ID
     if (!id) {
-      return res.status(400).json({ error: "waba_id_required" });
+      return sendGraphError(res, "required_parameter", { param: "waba_id" });
     }
 
     const templateId =
@@ -1874,11 +3391,11 @@ export const createGraphRouter = (): Router => {
     if (templateId) {
       tpl = getTemplateById(templateId);
       if (!tpl || (tpl.wabaId && tpl.wabaId !== id)) {
-        return res.status(404).json({ error: "template_not_found" });
+        return objectNotFound(req, res, templateId);
       }
     } else {
       if (typeof name !== "string") {
-        return res.status(400).json({ error: "name_required" });
+        return sendGraphError(res, "required_parameter", { param: "name" });
       }
       tpl = getTemplateByName(
         name,
@@ -1886,7 +3403,9 @@ export const createGraphRouter = (): Router => {
         id
       );
       if (!tpl) {
-        return res.status(404).json({ error: "template_not_found" });
+        return sendGraphError(res, "template_not_found", {
+          details: `template name (${name}) does not exist`,
+        });
       }
     }
 
@@ -1894,16 +3413,177 @@ export const createGraphRouter = (): Router => {
     return res.json({ success: true });
   });
 
+  // ----- Block users -----
+
+  const parseBlockUsersBody = (
+    body: any
+  ): { ok: true; users: string[] } | { ok: false; param: string } => {
+    if (body?.messaging_product !== "whatsapp") {
+      return { ok: false, param: "messaging_product" };
+    }
+    const list = body?.block_users;
+    if (!Array.isArray(list) || list.length === 0) {
+      return { ok: false, param: "block_users" };
+    }
+    const users = list
+      .map((entry: any) =>
+        entry && typeof entry.user === "string" ? entry.user : undefined
+      )
+      .filter((user: string | undefined): user is string => !!user);
+    if (users.length !== list.length) {
+      return { ok: false, param: "block_users[].user" };
+    }
+    return { ok: true, users };
+  };
+
+  // GET /<PHONE_ID>/block_users
+  router.get("/:id/block_users", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
+    }
+    if (!getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const blocked = listUsersBlockedByPhone(id).map((c) => c.waId);
+    const limit = parseLimit(req.query.limit, 25, 100);
+    const after =
+      typeof req.query.after === "string" ? req.query.after : undefined;
+    const before =
+      typeof req.query.before === "string" ? req.query.before : undefined;
+
+    let start = 0;
+    let end = blocked.length;
+    if (after && blocked.includes(after)) start = blocked.indexOf(after) + 1;
+    if (before && blocked.includes(before)) end = blocked.indexOf(before);
+    const slice = blocked.slice(start, Math.min(end, start + limit));
+    const hasNext = start + slice.length < end;
+
+    return res.json({
+      data: slice.map((waId) => ({
+        messaging_product: "whatsapp",
+        wa_id: waId,
+      })),
+      paging: {
+        cursors: {
+          before: start > 0 ? slice[0] ?? null : null,
+          after: hasNext ? slice[slice.length - 1] ?? null : null,
+        },
+      },
+    });
+  });
+
+  // POST /<PHONE_ID>/block_users – only users who messaged in the last 24h
+  router.post("/:id/block_users", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
+    }
+    if (!getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const parsed = parseBlockUsersBody(req.body);
+    if (!parsed.ok) {
+      return sendGraphError(res, "required_parameter", {
+        param: parsed.param,
+      });
+    }
+
+    const addedUsers: Array<{ input: string; wa_id: string }> = [];
+    const failedUsers: Array<Record<string, unknown>> = [];
+    for (const input of parsed.users) {
+      const waId = toWaId(input);
+      if (!evaluateServiceWindow({ phoneId: id, waId }).open) {
+        failedUsers.push({
+          input,
+          wa_id: waId,
+          errors: [
+            {
+              message: "Failed to block/unblock users",
+              code: 139100,
+              error_data: {
+                details:
+                  "User can only be blocked if they have sent a message to the business in the last 24 hours",
+              },
+            },
+          ],
+        });
+        continue;
+      }
+      blockUserForPhone(waId, id);
+      addedUsers.push({ input, wa_id: waId });
+    }
+
+    const blockUsers = {
+      added_users: addedUsers,
+      ...(failedUsers.length > 0 ? { failed_users: failedUsers } : {}),
+    };
+    if (failedUsers.length === 0) {
+      return res.json({
+        messaging_product: "whatsapp",
+        block_users: blockUsers,
+      });
+    }
+
+    const { status, body } = buildGraphError("block_users_failed", {
+      details: "Failed to block some users",
+    });
+    return res.status(status).json({
+      messaging_product: "whatsapp",
+      block_users: blockUsers,
+      ...body,
+    });
+  });
+
+  // DELETE /<PHONE_ID>/block_users
+  router.delete("/:id/block_users", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
+    }
+    if (!getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const parsed = parseBlockUsersBody(req.body);
+    if (!parsed.ok) {
+      return sendGraphError(res, "required_parameter", {
+        param: parsed.param,
+      });
+    }
+
+    const removedUsers = parsed.users.map((input) => {
+      const waId = toWaId(input);
+      unblockUserForPhone(waId, id);
+      return { input, wa_id: waId };
+    });
+
+    return res.json({
+      messaging_product: "whatsapp",
+      block_users: { removed_users: removedUsers },
+    });
+  });
+
   // Conversational automation (welcome message, commands, prompts)
   router.get("/:id/conversational_automation", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const config = getConversationalAutomation(id);
     if (!config) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     return res.json({ conversational_automation: config, id });
@@ -1912,15 +3592,17 @@ export const createGraphRouter = (): Router => {
   router.post("/:id/conversational_automation", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
     }
 
     const { enable_welcome_message, commands, prompts } = req.body ?? {};
 
     if (enable_welcome_message !== undefined && typeof enable_welcome_message !== "boolean") {
-      return res
-        .status(400)
-        .json({ error: "enable_welcome_message_must_be_boolean" });
+      return sendGraphError(res, "invalid_parameter", {
+        details: "enable_welcome_message must be a boolean",
+      });
     }
 
     let sanitizedCommands:
@@ -1928,10 +3610,14 @@ export const createGraphRouter = (): Router => {
       | undefined;
     if (commands !== undefined) {
       if (!Array.isArray(commands)) {
-        return res.status(400).json({ error: "commands_must_be_array" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: "commands must be an array",
+        });
       }
       if (commands.length > 30) {
-        return res.status(400).json({ error: "commands_exceed_limit_30" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: "commands can't have more than 30 entries",
+        });
       }
 
       sanitizedCommands = [];
@@ -1943,13 +3629,19 @@ export const createGraphRouter = (): Router => {
             : undefined;
 
         if (!name || !description) {
-          return res.status(400).json({ error: "command_name_and_description_required" });
+          return sendGraphError(res, "invalid_parameter", {
+            details: "command_name and command_description are required",
+          });
         }
         if (name.length > 32) {
-          return res.status(400).json({ error: "command_name_max_32_chars" });
+          return sendGraphError(res, "invalid_parameter", {
+            details: "command_name can't exceed 32 characters",
+          });
         }
         if (description.length > 256) {
-          return res.status(400).json({ error: "command_description_max_256_chars" });
+          return sendGraphError(res, "invalid_parameter", {
+            details: "command_description can't exceed 256 characters",
+          });
         }
 
         sanitizedCommands.push({ command_name: name, command_description: description });
@@ -1959,19 +3651,27 @@ export const createGraphRouter = (): Router => {
     let sanitizedPrompts: string[] | undefined;
     if (prompts !== undefined) {
       if (!Array.isArray(prompts)) {
-        return res.status(400).json({ error: "prompts_must_be_array" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: "prompts must be an array",
+        });
       }
       if (prompts.length > 4) {
-        return res.status(400).json({ error: "prompts_exceed_limit_4" });
+        return sendGraphError(res, "invalid_parameter", {
+          details: "prompts can't have more than 4 entries",
+        });
       }
 
       sanitizedPrompts = [];
       for (const p of prompts) {
         if (typeof p !== "string") {
-          return res.status(400).json({ error: "prompt_must_be_string" });
+          return sendGraphError(res, "invalid_parameter", {
+            details: "prompts must be strings",
+          });
         }
         if (p.length > 80) {
-          return res.status(400).json({ error: "prompt_max_80_chars" });
+          return sendGraphError(res, "invalid_parameter", {
+            details: "prompts can't exceed 80 characters",
+          });
         }
         sanitizedPrompts.push(p);
       }
@@ -1994,7 +3694,7 @@ export const createGraphRouter = (): Router => {
     const updated = updateConversationalAutomation(updateParams);
 
     if (!updated) {
-      return res.status(404).json({ error: "phone_not_found" });
+      return objectNotFound(req, res);
     }
 
     return res.json({ success: true, conversational_automation: updated });
@@ -2003,30 +3703,149 @@ export const createGraphRouter = (): Router => {
   // Identity change check settings:
   // POST /<PHONE_ID>/settings with
   // { "user_identity_change": { "enable_identity_key_check": boolean } }
+  // GET /<PHONE_ID>/settings
+  router.get("/:id/settings", (req: Request, res: Response) => {
+    const { id } = req.params;
+    const phone = id ? getPhoneNumber(id) : undefined;
+    if (!id || !phone) {
+      return objectNotFound(req, res);
+    }
+
+    const calling = getCallingSettings(id);
+    return res.json({
+      calling: {
+        status: calling.status,
+        call_icon_visibility: calling.callIconVisibility,
+        callback_permission_status: calling.callbackPermissionStatus,
+        ...(calling.callHours ? { call_hours: calling.callHours } : {}),
+      },
+      ...(phone.identityKeyCheckEnabled !== undefined
+        ? {
+            user_identity_change: {
+              enable_identity_key_check: phone.identityKeyCheckEnabled,
+            },
+          }
+        : {}),
+    });
+  });
+
+  // Validates the `calling` block of POST /settings into a settings patch
+  const readCallingSettings = (
+    calling: Record<string, unknown>
+  ): { patch: Partial<CallingSettings> } | { details: string } => {
+    const patch: Partial<CallingSettings> = {};
+    const { status, call_icon_visibility, callback_permission_status } =
+      calling;
+
+    if (status !== undefined) {
+      if (status !== "ENABLED" && status !== "DISABLED") {
+        return { details: "calling.status must be ENABLED or DISABLED" };
+      }
+      patch.status = status;
+    }
+    if (call_icon_visibility !== undefined) {
+      if (
+        call_icon_visibility !== "DEFAULT" &&
+        call_icon_visibility !== "DISABLE_ALL"
+      ) {
+        return {
+          details: "calling.call_icon_visibility must be DEFAULT or DISABLE_ALL",
+        };
+      }
+      patch.callIconVisibility = call_icon_visibility;
+    }
+    if (callback_permission_status !== undefined) {
+      if (
+        callback_permission_status !== "ENABLED" &&
+        callback_permission_status !== "DISABLED"
+      ) {
+        return {
+          details:
+            "calling.callback_permission_status must be ENABLED or DISABLED",
+        };
+      }
+      patch.callbackPermissionStatus = callback_permission_status;
+    }
+    if (calling.call_hours !== undefined) {
+      const hours = calling.call_hours as Record<string, unknown> | null;
+      if (
+        !hours ||
+        typeof hours !== "object" ||
+        (hours.status !== "ENABLED" && hours.status !== "DISABLED")
+      ) {
+        return {
+          details:
+            "calling.call_hours must be an object with status ENABLED or DISABLED",
+        };
+      }
+      if (
+        hours.status === "ENABLED" &&
+        (typeof hours.timezone_id !== "string" ||
+          !Array.isArray(hours.weekly_operating_hours))
+      ) {
+        return {
+          details:
+            "Enabled call_hours need timezone_id and weekly_operating_hours",
+        };
+      }
+      patch.callHours = hours;
+    }
+    return { patch };
+  };
+
+  // POST /<PHONE_ID>/settings – calling and/or user_identity_change
   router.post("/:id/settings", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
-      return res.status(400).json({ error: "phone_id_required" });
+      return sendGraphError(res, "required_parameter", {
+        param: "phone_number_id",
+      });
+    }
+    if (!getPhoneNumber(id)) {
+      return objectNotFound(req, res);
+    }
+
+    const { user_identity_change, calling } = req.body ?? {};
+    if (!user_identity_change && !calling) {
+      return sendGraphError(res, "invalid_parameter", {
+        details: "Provide calling and/or user_identity_change",
+      });
     }
 
-    const { user_identity_change } = req.body ?? {};
     if (
-      !user_identity_change ||
+      user_identity_change &&
       typeof user_identity_change.enable_identity_key_check !== "boolean"
     ) {
-      return res.status(400).json({
-        error: "user_identity_change.enable_identity_key_check_required",
+      return sendGraphError(res, "required_parameter", {
+        param: "user_identity_change.enable_identity_key_check",
       });
     }
 
-    const ok = setIdentityKeyCheckForNumber({
-      id,
-      enableIdentityKeyCheck:
-        user_identity_change.enable_identity_key_check,
-    });
+    let callingPatch: Partial<CallingSettings> | undefined;
+    if (calling) {
+      if (typeof calling !== "object") {
+        return sendGraphError(res, "invalid_parameter", {
+          details: "calling must be an object",
+        });
+      }
+      const parsed = readCallingSettings(calling);
+      if ("details" in parsed) {
+        return sendGraphError(res, "invalid_parameter", {
+          details: parsed.details,
+        });
+      }
+      callingPatch = parsed.patch;
+    }
 
-    if (!ok) {
-      return res.status(404).json({ error: "phone_not_found" });
+    if (user_identity_change) {
+      setIdentityKeyCheckForNumber({
+        id,
+        enableIdentityKeyCheck:
+          user_identity_change.enable_identity_key_check,
+      });
+    }
+    if (callingPatch) {
+      updateCallingSettings(id, callingPatch);
     }
 
     return res.json({ success: true });
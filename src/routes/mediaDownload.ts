@@ -0,0 +1,55 @@
+import { Router, Request, Response } from "express";
+import { getMedia, verifyMediaDownloadUrl } from "../state/media";
+
+// Serves the bytes behind the short-lived URLs returned by GET /<MEDIA_ID>.
+// Like Meta's lookaside URLs, downloads need a Bearer token and a valid,
+// unexpired signature.
+export const createMediaDownloadRouter = (): Router => {
+  const router = Router();
+
+  router.get("/:mediaId", (req: Request, res: Response) => {
+    const { mediaId } = req.params;
+    if (!mediaId) {
+      return res.status(400).json({ error: "media_id_required" });
+    }
+
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith("Bearer ") || !header.slice(7).trim()) {
+      return res.status(401).json({
+        error: "missing_authorization",
+        message: "Expected Authorization: Bearer <token>",
+      });
+    }
+
+    const verification = verifyMediaDownloadUrl({
+      mediaId,
+      ext: req.query.ext,
+      hash: req.query.hash,
+    });
+    if (verification === "invalid_signature") {
+      return res.status(403).json({ error: "invalid_media_url_signature" });
+    }
+    if (verification === "expired") {
+      return res.status(404).json({ error: "media_url_expired" });
+    }
+
+    const media = getMedia(mediaId);
+    if (!media) {
+      return res.status(404).json({ error: "media_not_found" });
+    }
+
+    res.setHeader("Content-Type", media.mimeType);
+    res.setHeader("Content-Length", String(media.fileSize));
+    if (media.filename) {
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${media.filename.replace(/"/g, "")}"`
+      );
+    }
+    return res.send(media.data);
+  });
+
+  return router;
+};
+
+export default createMediaDownloadRouter;
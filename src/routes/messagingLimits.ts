@@ -0,0 +1,83 @@
+import { Router, Request, Response } from "express";
+import {
+  getMessagingSummaryForPhone,
+  isMessagingLimitTier,
+  listMessagingSummaries,
+  MESSAGING_LIMIT_TIERS,
+  setMessagingAutoUpgrade,
+} from "../state/messagingLimits";
+import { getPhoneNumber } from "../state/webhookRouting";
+import {
+  changeMessagingTier,
+  evaluateTierUpgrade,
+} from "../services/messagingTiers";
+
+// Read and set messaging limit tiers per phone number
+export const createMessagingLimitsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (_req: Request, res: Response) => {
+    res.json({
+      tiers: MESSAGING_LIMIT_TIERS,
+      phones: listMessagingSummaries(),
+    });
+  });
+
+  router.get("/:phoneId", (req: Request, res: Response) => {
+    const { phoneId } = req.params;
+    if (!phoneId) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(phoneId)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+    return res.json({
+      ...getMessagingSummaryForPhone(phoneId),
+      upgrade: evaluateTierUpgrade(phoneId, { apply: false }),
+    });
+  });
+
+  router.put("/:phoneId", (req: Request, res: Response) => {
+    const { phoneId } = req.params;
+    if (!phoneId) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(phoneId)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+
+    const { tier, autoUpgrade } = req.body ?? {};
+    if (tier !== undefined && !isMessagingLimitTier(tier)) {
+      return res.status(400).json({
+        error: "invalid_tier",
+        allowed: MESSAGING_LIMIT_TIERS,
+      });
+    }
+
+    if (typeof autoUpgrade === "boolean") {
+      setMessagingAutoUpgrade(phoneId, autoUpgrade);
+    }
+    const event = tier !== undefined ? changeMessagingTier(phoneId, tier) : undefined;
+
+    return res.json({
+      ...getMessagingSummaryForPhone(phoneId),
+      event: event ?? null,
+    });
+  });
+
+  // Runs the auto-upgrade rule once, regardless of the autoUpgrade flag
+  router.post("/:phoneId/evaluate", (req: Request, res: Response) => {
+    const { phoneId } = req.params;
+    if (!phoneId) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(phoneId)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+    return res.json(evaluateTierUpgrade(phoneId));
+  });
+
+  return router;
+};
+
+export default createMessagingLimitsRouter;
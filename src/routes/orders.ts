@@ -0,0 +1,27 @@
+import { Router, Request, Response } from "express";
+import { getOrder, listOrders } from "../state/payments";
+
+// Orders opened by order_details messages, with order and payment history
+export const createOrdersRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response) => {
+    const phoneId =
+      typeof req.query.phoneId === "string" ? req.query.phoneId : undefined;
+    res.json({ orders: listOrders(phoneId) });
+  });
+
+  router.get("/:phoneId/:referenceId", (req: Request, res: Response) => {
+    const { phoneId, referenceId } = req.params;
+    const order =
+      phoneId && referenceId ? getOrder(phoneId, referenceId) : undefined;
+    if (!order) {
+      return res.status(404).json({ error: "order_not_found" });
+    }
+    return res.json(order);
+  });
+
+  return router;
+};
+
+export default createOrdersRouter;
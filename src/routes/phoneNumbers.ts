@@ -7,6 +7,16 @@ import {
   upsertPhoneNumber,
   upsertWaba,
 } from "../state/webhookRouting";
+import {
+  getStatusLifecycleConfig,
+  updateStatusLifecycleConfig,
+} from "../state/statusLifecycle";
+import {
+  getPhoneQualityConfig,
+  getPhoneQualityStats,
+  updatePhoneQualityConfig,
+} from "../state/phoneQuality";
+import { refreshPhoneQuality } from "../services/phoneQuality";
 
 export const createPhoneNumbersRouter = (): Router => {
   const router = Router();
@@ -157,6 +167,80 @@ export const createPhoneNumbersRouter = (): Router => {
     });
   });
 
+  // Automatic sent → delivered → read (or failed) status webhooks for
+  // messages sent through Graph /<PHONE_ID>/messages
+  router.get("/:id/status-lifecycle", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(id)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+    return res.json(getStatusLifecycleConfig(id));
+  });
+
+  router.put("/:id/status-lifecycle", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(id)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+
+    const { outcome } = req.body ?? {};
+    if (
+      outcome !== undefined &&
+      outcome !== "delivered" &&
+      outcome !== "read" &&
+      outcome !== "failed"
+    ) {
+      return res.status(400).json({
+        error: "outcome_must_be_delivered_read_or_failed",
+      });
+    }
+
+    return res.json(updateStatusLifecycleConfig(id, req.body ?? {}));
+  });
+
+  // Quality rating derived from blocks, reports and read rates
+  router.get("/:id/quality", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    const phone = getPhoneNumber(id);
+    if (!phone) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+    return res.json({
+      phoneId: id,
+      qualityRating: phone.qualityRating ?? "UNKNOWN",
+      stats: getPhoneQualityStats(id),
+      config: getPhoneQualityConfig(id),
+    });
+  });
+
+  router.put("/:id/quality", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "phone_id_required" });
+    }
+    if (!getPhoneNumber(id)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+
+    const config = updatePhoneQualityConfig(id, req.body ?? {});
+    const { rating, stats } = refreshPhoneQuality(id);
+    return res.json({
+      phoneId: id,
+      qualityRating: rating ?? "UNKNOWN",
+      stats,
+      config,
+    });
+  });
+
   return router;
 };
 
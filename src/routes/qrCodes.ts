@@ -0,0 +1,21 @@
+import { Router, Request, Response } from "express";
+import { getDeepLinkUrl, listQrCodes } from "../state/qrCodes";
+
+// Prefilled message QR codes created via POST /<PHONE_ID>/message_qrdls
+export const createQrCodesRouter = (): Router => {
+  const router = Router();
+
+  router.get("/:phoneId", (req: Request, res: Response) => {
+    const { phoneId } = req.params;
+    res.json({
+      qrCodes: (phoneId ? listQrCodes(phoneId) : []).map((qr) => ({
+        ...qr,
+        deepLinkUrl: getDeepLinkUrl(qr.code),
+      })),
+    });
+  });
+
+  return router;
+};
+
+export default createQrCodesRouter;
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from "express";
+import {
+  closeServiceWindow,
+  evaluateServiceWindow,
+  listServiceWindows,
+  overrideServiceWindow,
+} from "../state/serviceWindows";
+
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 10_000_000_000 ? value * 1000 : value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+// Inspect and override 24h customer service windows per (phone, wa_id)
+export const createServiceWindowsRouter = (): Router => {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response) => {
+    const phoneId =
+      typeof req.query.phoneId === "string" ? req.query.phoneId : undefined;
+    res.json({ windows: listServiceWindows(phoneId ? { phoneId } : {}) });
+  });
+
+  router.get("/:phoneId/:waId", (req: Request, res: Response) => {
+    const { phoneId, waId } = req.params;
+    if (!phoneId || !waId) {
+      return res.status(400).json({ error: "phoneId_and_waId_required" });
+    }
+    return res.json(evaluateServiceWindow({ phoneId, waId }));
+  });
+
+  router.put("/:phoneId/:waId", (req: Request, res: Response) => {
+    const { phoneId, waId } = req.params;
+    if (!phoneId || !waId) {
+      return res.status(400).json({ error: "phoneId_and_waId_required" });
+    }
+
+    const { open, lastInboundAt, expiresAt } = req.body ?? {};
+
+    if (open === false) {
+      closeServiceWindow(phoneId, waId);
+      return res.json(evaluateServiceWindow({ phoneId, waId }));
+    }
+
+    const parsedLastInbound = parseTimestamp(lastInboundAt);
+    const parsedExpiresAt = parseTimestamp(expiresAt);
+    if (lastInboundAt !== undefined && parsedLastInbound === undefined) {
+      return res.status(400).json({ error: "lastInboundAt_must_be_timestamp" });
+    }
+    if (expiresAt !== undefined && parsedExpiresAt === undefined) {
+      return res.status(400).json({ error: "expiresAt_must_be_timestamp" });
+    }
+
+    overrideServiceWindow({
+      phoneId,
+      waId,
+      ...(parsedLastInbound !== undefined
+        ? { lastInboundAt: parsedLastInbound }
+        : {}),
+      ...(parsedExpiresAt !== undefined ? { expiresAt: parsedExpiresAt } : {}),
+    });
+
+    return res.json(evaluateServiceWindow({ phoneId, waId }));
+  });
+
+  router.delete("/:phoneId/:waId", (req: Request, res: Response) => {
+    const { phoneId, waId } = req.params;
+    if (!phoneId || !waId) {
+      return res.status(400).json({ error: "phoneId_and_waId_required" });
+    }
+    const deleted = closeServiceWindow(phoneId, waId);
+    if (!deleted) {
+      return res.status(404).json({ error: "service_window_not_found" });
+    }
+    return res.json({ success: true });
+  });
+
+  return router;
+};
+
+export default createServiceWindowsRouter;
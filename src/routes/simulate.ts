@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
-import { getConfig } from "../config";
+import path from "path";
+import { getConfig, InboundMediaMode } from "../config";
 import { WebhookForwarder } from "../services/forwarder";
 import {
   WabaWebhookPayload,
@@ -15,10 +16,65 @@ import {
   WabaReactionMessage,
   WabaTemplateMessage,
   WabaInteractiveMessage,
+  WabaOrderMessage,
+  WabaOrderProductItem,
+  WabaReferral,
 } from "../types/waba";
 import { addEvent } from "../state/eventStore";
 import { evaluatePolicyForWaId } from "../state/policy";
-import { resolveWebhookTarget } from "../state/webhookRouting";
+import {
+  getPhoneNumber,
+  resolveWebhookTarget,
+} from "../state/webhookRouting";
+import { storeLocalMediaFile } from "../state/media";
+import { recordInboundMessage } from "../state/serviceWindows";
+import { buildStatusBillingFields } from "../services/statusLifecycle";
+import { applyTemplateFeedback } from "../services/templateQuality";
+import { recordPhoneSignal } from "../services/phoneQuality";
+import { createMessageId } from "../services/messageIds";
+import { MAX_SIGNALS_PER_CALL } from "../state/phoneQuality";
+import {
+  callFlowEndpoint,
+  FLOW_ENDPOINT_ACTIONS,
+  FlowEndpointAction,
+  FlowEndpointRequest,
+} from "../services/flowEndpoint";
+import { getFlow } from "../state/flows";
+import {
+  findOrderByReference,
+  getOrder,
+  isPaymentStatus,
+  PAYMENT_STATUSES,
+  PaymentStatus,
+  setOrderPaymentStatus,
+} from "../state/payments";
+import {
+  getCatalog,
+  getCatalogForPhone,
+  getCommerceSettings,
+  getProduct,
+  isProductSendable,
+} from "../state/commerce";
+import { findQrCode, recordQrScan } from "../state/qrCodes";
+import {
+  buildCampaignReferral,
+  getAdCampaign,
+  normalizeReferral,
+} from "../state/adCampaigns";
+import {
+  applyCallAction,
+  canApplyCallAction,
+  createCall,
+  findActiveCall,
+  getCall,
+  getCallingSettings,
+} from "../state/calls";
+import {
+  buildCallConnectEvent,
+  buildCallStatus,
+  buildCallTerminateEvent,
+  forwardCallWebhook,
+} from "../services/callWebhooks";
 
 interface SimulateMessageBody {
   from: string;
@@ -40,22 +96,26 @@ interface SimulateMediaBaseBody {
 }
 
 interface SimulateImageBody extends SimulateMediaBaseBody {
+  mediaMode?: InboundMediaMode;
   caption?: string;
   mediaUrl?: string;
 }
 
 interface SimulateDocumentBody extends SimulateMediaBaseBody {
+  mediaMode?: InboundMediaMode;
   filename?: string;
   caption?: string;
   mediaUrl?: string;
 }
 
 interface SimulateAudioBody extends SimulateMediaBaseBody {
+  mediaMode?: InboundMediaMode;
   mediaUrl?: string;
   voice?: boolean;
 }
 
 interface SimulateVideoBody extends SimulateMediaBaseBody {
+  mediaMode?: InboundMediaMode;
   caption?: string;
   mediaUrl?: string;
 }
@@ -81,6 +141,7 @@ interface SimulateContactsBody extends SimulateMediaBaseBody {
 }
 
 interface SimulateStickerBody extends SimulateMediaBaseBody {
+  mediaMode?: InboundMediaMode;
   mediaUrl?: string;
 }
 
@@ -107,6 +168,8 @@ interface SimulateInteractiveListBody extends SimulateMediaBaseBody {
 
 interface SimulateInteractiveProductCarouselBody extends SimulateMediaBaseBody {
   productIds: string[];
+  /** Defaults to the catalog connected to the phone number's WABA */
+  catalogId?: string;
 }
 
 interface SimulateInteractiveMediaCarouselBody extends SimulateMediaBaseBody {
@@ -120,6 +183,36 @@ interface SimulateFlowCompleteBody extends SimulateMediaBaseBody {
   flowAction?: string;
   flowActionPayload?: Record<string, unknown>;
   flowCta?: string;
+  /** Values collected by the flow; switches the webhook to `nfm_reply` */
+  responseJson?: Record<string, unknown>;
+  /** ID of the flow message being answered */
+  contextMessageId?: string;
+}
+
+interface SimulateFlowEndpointBody {
+  phoneNumberId: string;
+  flowId?: string;
+  endpointUri?: string;
+  action?: FlowEndpointAction;
+  screen?: string;
+  data?: Record<string, unknown>;
+  flowToken?: string;
+  version?: string;
+}
+
+interface SimulateOrderBody extends SimulateMediaBaseBody {
+  /** Defaults to the catalog connected to the phone number's WABA */
+  catalogId?: string;
+  text?: string;
+  items: Array<{
+    retailerId: string;
+    quantity?: number;
+    /** Defaults to the catalog price */
+    itemPrice?: number;
+    currency?: string;
+  }>;
+  /** ID of the product or catalog message the cart was built from */
+  contextMessageId?: string;
 }
 
 interface SimulateContextReplyBody extends SimulateMessageBody {
@@ -139,6 +232,66 @@ interface SimulateStatusBody {
   wabaId?: string;
 }
 
+interface SimulatePaymentBody {
+  referenceId: string;
+  /** Needed when the same reference ID was used on several numbers */
+  phoneNumberId?: string;
+  status: PaymentStatus;
+  /** Transaction type, defaults to the order's payment method */
+  transactionType?: string;
+  errorCode?: string;
+  errorReason?: string;
+  webhookAppSecret?: string;
+}
+
+interface SimulateQrScanBody {
+  /** QR code, or its wa.me deep link via deepLinkUrl */
+  code?: string;
+  deepLinkUrl?: string;
+  from: string;
+  waId?: string;
+  name?: string;
+  webhookAppSecret?: string;
+}
+
+interface SimulateCallConnectBody {
+  from: string;
+  waId?: string;
+  name?: string;
+  phoneNumberId: string;
+  /** SDP offer, defaults to a minimal audio offer */
+  sdp?: string;
+  webhookAppSecret?: string;
+}
+
+interface SimulateCallAnswerBody {
+  callId: string;
+  /** false declines the call */
+  accept?: boolean;
+  sdp?: string;
+  webhookAppSecret?: string;
+}
+
+interface SimulateCallTerminateBody {
+  callId: string;
+  webhookAppSecret?: string;
+}
+
+// Minimal Opus audio SDP; no media is ever exchanged
+const sampleSdp = (type: "offer" | "answer"): string =>
+  [
+    "v=0",
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    "s=-",
+    "t=0 0",
+    "m=audio 9 UDP/TLS/RTP/SAVPF 111",
+    "c=IN IP4 0.0.0.0",
+    `a=setup:${type === "offer" ? "actpass" : "active"}`,
+    "a=rtpmap:111 opus/48000/2",
+    "a=sendrecv",
+    "",
+  ].join("\r\n");
+
 export const createSimulateRouter = (): Router => {
   const router = Router();
 
@@ -161,6 +314,7 @@ export const createSimulateRouter = (): Router => {
       name: string;
       phoneNumberId: string;
       displayPhoneNumber: string;
+      referral?: WabaReferral | undefined;
     }
   ): WabaWebhookPayload => {
     return {
@@ -183,7 +337,11 @@ export const createSimulateRouter = (): Router => {
                     wa_id: opts.waId,
                   },
                 ],
-                messages: [message],
+                messages: [
+                  opts.referral
+                    ? { ...message, referral: opts.referral }
+                    : message,
+                ],
               },
             },
           ],
@@ -192,6 +350,75 @@ export const createSimulateRouter = (): Router => {
     };
   };
 
+  // Inbound messages may come from a Click-to-WhatsApp ad: `referral` is
+  // given inline or built from a registered campaign via `adCampaignId`.
+  // Returns null once an error response has been sent.
+  const resolveReferral = (
+    req: Request,
+    res: Response
+  ): WabaReferral | undefined | null => {
+    const { referral, adCampaignId } = req.body ?? {};
+    if (adCampaignId !== undefined && adCampaignId !== "") {
+      const campaign =
+        typeof adCampaignId === "string"
+          ? getAdCampaign(adCampaignId)
+          : undefined;
+      if (!campaign) {
+        res.status(404).json({ error: "ad_campaign_not_found" });
+        return null;
+      }
+      return buildCampaignReferral(campaign);
+    }
+    if (referral === undefined) return undefined;
+
+    const normalized = normalizeReferral(referral);
+    if ("error" in normalized) {
+      res.status(400).json({ error: normalized.error });
+      return null;
+    }
+    return normalized.referral;
+  };
+
+  // Builds the media object of an inbound media message. In "id" mode the
+  // file behind mediaUrl is registered in the media store, so the app has to
+  // resolve it via GET /<MEDIA_ID> and download it like with the Cloud API.
+  const resolveInboundMedia = (params: {
+    mediaUrl: string;
+    mimeType: string;
+    phoneNumberId: string;
+    mediaMode?: InboundMediaMode | undefined;
+  }):
+    | { id: string; mime_type: string; sha256: string }
+    | { link: string; mime_type: string }
+    | undefined => {
+    const mode = params.mediaMode ?? getConfig().inboundMediaMode;
+    if (mode !== "id") {
+      return { mime_type: params.mimeType, link: params.mediaUrl };
+    }
+
+    let filename = params.mediaUrl;
+    try {
+      filename = new URL(params.mediaUrl, "http://localhost").pathname;
+    } catch {
+      // keep the raw value and try it as a filename
+    }
+
+    const media = storeLocalMediaFile({
+      phoneId: params.phoneNumberId,
+      filename: path.basename(filename),
+    });
+    if (!media) return undefined;
+
+    return { id: media.id, mime_type: media.mimeType, sha256: media.sha256 };
+  };
+
+  const sendMediaNotFound = (res: Response): void => {
+    res.status(400).json({
+      error:
+        "'mediaUrl' must point to a file in the sandbox media/ directory when mediaMode is 'id'",
+    });
+  };
+
   router.post("/message", async (req: Request, res: Response) => {
 
     const {
@@ -212,7 +439,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-TEXT-${Date.now()}`;
+    const messageId = createMessageId("TEXT");
 
     const message: WabaTextMessage = {
       from,
@@ -224,7 +451,11 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
@@ -239,6 +470,12 @@ export const createSimulateRouter = (): Router => {
     const targetUrl = targetContext?.url ?? requireTarget(res);
     if (!targetUrl) return;
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload, {
       appSecret: webhookAppSecret || targetContext?.appSecret || undefined,
@@ -265,6 +502,95 @@ export const createSimulateRouter = (): Router => {
     });
   });
 
+  // A user scans a QR code (or opens its wa.me link) and sends the
+  // prefilled message as-is
+  router.post("/qr-scan", async (req: Request, res: Response) => {
+    const {
+      code,
+      deepLinkUrl,
+      from,
+      waId = from,
+      name = "Sandbox User",
+      webhookAppSecret,
+    } = req.body as SimulateQrScanBody;
+
+    // Accept the bare code or the full https://wa.me/message/<CODE> link
+    const scanned = code || deepLinkUrl?.split("/").filter(Boolean).pop();
+    if (!from || !scanned) {
+      return res
+        .status(400)
+        .json({ error: "'from' and 'code' (or 'deepLinkUrl') are required" });
+    }
+
+    const qr = findQrCode(scanned);
+    if (!qr) {
+      return res.status(404).json({ error: "qr_code_not_found" });
+    }
+    const phone = getPhoneNumber(qr.phoneId);
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const messageId = createMessageId("TEXT");
+
+    const message: WabaTextMessage = {
+      from,
+      id: messageId,
+      timestamp,
+      type: "text",
+      text: {
+        body: qr.prefilledMessage,
+      },
+    };
+
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
+    const payload = buildBasePayload(message, {
+      referral,
+      waId,
+      name,
+      phoneNumberId: qr.phoneId,
+      displayPhoneNumber: phone?.displayPhoneNumber ?? "0000000000",
+    });
+
+    const targetContext =
+      resolveWebhookTarget({ phoneNumberId: qr.phoneId }) ?? null;
+    const targetUrl = targetContext?.url ?? requireTarget(res);
+    if (!targetUrl) return;
+
+    recordQrScan(qr);
+    recordInboundMessage({
+      phoneId: qr.phoneId,
+      waId,
+      referral: referral !== undefined,
+    });
+
+    const forwarder = new WebhookForwarder(targetUrl);
+    const result = await forwarder.forward(payload, {
+      appSecret: webhookAppSecret || targetContext?.appSecret || undefined,
+    });
+
+    addEvent({
+      direction: "outbound",
+      type: "simulate.message",
+      source: "simulate-qr-scan",
+      payload,
+      meta: {
+        targetUrl,
+        forwardStatus: result.status,
+        qrCode: qr.code,
+        policy: evaluatePolicyForWaId(waId),
+        resolvedSource: targetContext?.source ?? "app",
+      },
+    });
+
+    return res.status(200).json({
+      forwardedTo: targetUrl,
+      messageId,
+      payload,
+      forwardStatus: result.status,
+    });
+  });
+
   router.post("/status", async (req: Request, res: Response) => {
     const {
       messageId,
@@ -303,6 +629,9 @@ export const createSimulateRouter = (): Router => {
                     status,
                     timestamp,
                     recipient_id: recipientId,
+                    ...(status !== "failed"
+                      ? buildStatusBillingFields(messageId, status)
+                      : {}),
                   },
                 ],
               },
@@ -320,6 +649,11 @@ export const createSimulateRouter = (): Router => {
     const targetUrl = targetContext?.url ?? requireTarget(res);
     if (!targetUrl) return;
 
+    // Read receipts feed the phone number quality rating
+    if (status === "read" && phoneNumberId) {
+      recordPhoneSignal(phoneNumberId, "read");
+    }
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload, {
       appSecret: webhookAppSecret || undefined,
@@ -345,6 +679,256 @@ export const createSimulateRouter = (): Router => {
     });
   });
 
+  // Customer payment outcome for an order_details message
+  router.post("/payment", async (req: Request, res: Response) => {
+    const {
+      referenceId,
+      phoneNumberId,
+      status,
+      transactionType,
+      errorCode = "insufficient_funds",
+      errorReason = "Payment declined by the payment provider",
+      webhookAppSecret,
+    } = req.body as SimulatePaymentBody;
+
+    if (!referenceId || !isPaymentStatus(status)) {
+      return res.status(400).json({
+        error: `'referenceId' and 'status' (${PAYMENT_STATUSES.join(
+          ", "
+        )}) are required`,
+      });
+    }
+
+    const order = phoneNumberId
+      ? getOrder(phoneNumberId, referenceId)
+      : findOrderByReference(referenceId);
+    if (!order) {
+      return res.status(404).json({ error: "order_not_found" });
+    }
+    if (order.paymentStatus === "captured") {
+      return res.status(409).json({ error: "payment_already_captured" });
+    }
+    if (order.status === "canceled") {
+      return res.status(409).json({ error: "order_canceled" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const phone = getPhoneNumber(order.phoneId);
+    // Pix dynamic codes are reported as plain "pix" transactions
+    const method =
+      transactionType ||
+      (order.paymentMethod === "pix_dynamic_code"
+        ? "pix"
+        : order.paymentMethod) ||
+      "upi";
+    const payload: WabaWebhookPayload = {
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: phone?.wabaId ?? "sandbox-whatsapp-business-account",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: {
+                  display_phone_number: phone?.displayPhoneNumber ?? "",
+                  phone_number_id: order.phoneId,
+                },
+                statuses: [
+                  {
+                    id: order.messageId,
+                    status,
+                    timestamp: now.toString(),
+                    recipient_id: order.to,
+                    type: "payment",
+                    payment: {
+                      reference_id: order.referenceId,
+                      amount: order.totalAmount,
+                      currency: order.currency,
+                      transaction: {
+                        // Stable per order so pending -> captured match up
+                        id: `SANDBOX-TXN-${order.createdAt}`,
+                        type: method,
+                        status:
+                          status === "captured"
+                            ? "success"
+                            : status === "failed"
+                            ? "failed"
+                            : "pending",
+                        created_timestamp: Math.floor(order.createdAt / 1000),
+                        updated_timestamp: now,
+                        method: { type: method },
+                        ...(status === "failed"
+                          ? { error: { code: errorCode, reason: errorReason } }
+                          : {}),
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const targetContext =
+      resolveWebhookTarget({ phoneNumberId: order.phoneId }) ?? null;
+    const targetUrl = targetContext?.url ?? requireTarget(res);
+    if (!targetUrl) return;
+
+    setOrderPaymentStatus(order, status);
+
+    const forwarder = new WebhookForwarder(targetUrl);
+    const result = await forwarder.forward(payload, {
+      appSecret: webhookAppSecret || targetContext?.appSecret || undefined,
+    });
+
+    addEvent({
+      direction: "outbound",
+      type: "simulate.status",
+      source: "simulate-payment",
+      payload,
+      meta: {
+        targetUrl,
+        forwardStatus: result.status,
+        order,
+        resolvedSource: targetContext?.source ?? "app",
+      },
+    });
+
+    return res.status(200).json({
+      forwardedTo: targetUrl,
+      payload,
+      order,
+      forwardStatus: result.status,
+    });
+  });
+
+  // ----- Calls (signaling only) -----
+
+  // The user dials the business: a `connect` webhook with the SDP offer
+  router.post("/calls/connect", async (req: Request, res: Response) => {
+    const {
+      from,
+      waId = from,
+      name = "Sandbox User",
+      phoneNumberId,
+      sdp = sampleSdp("offer"),
+      webhookAppSecret,
+    } = req.body as SimulateCallConnectBody;
+
+    if (!waId || !phoneNumberId) {
+      return res
+        .status(400)
+        .json({ error: "'from' and 'phoneNumberId' are required" });
+    }
+    if (!getPhoneNumber(phoneNumberId)) {
+      return res.status(404).json({ error: "phone_number_not_found" });
+    }
+    if (getCallingSettings(phoneNumberId).status !== "ENABLED") {
+      return res.status(409).json({ error: "calling_disabled" });
+    }
+    if (findActiveCall(phoneNumberId, waId)) {
+      return res.status(409).json({ error: "call_in_progress" });
+    }
+    if (!resolveWebhookTarget({ phoneNumberId }) && !requireTarget(res)) {
+      return;
+    }
+
+    const call = createCall({
+      phoneId: phoneNumberId,
+      waId,
+      direction: "USER_INITIATED",
+      offer: { sdp_type: "offer", sdp },
+    });
+    const result = await forwardCallWebhook({
+      call,
+      calls: [buildCallConnectEvent(call)],
+      contactName: name,
+      source: "simulate-call",
+      appSecret: webhookAppSecret,
+    });
+
+    return res.status(200).json({ ...result, callId: call.id, call });
+  });
+
+  // The user picks up or declines a business-initiated call
+  router.post("/calls/answer", async (req: Request, res: Response) => {
+    const {
+      callId,
+      accept = true,
+      sdp = sampleSdp("answer"),
+      webhookAppSecret,
+    } = req.body as SimulateCallAnswerBody;
+
+    const call = callId ? getCall(callId) : undefined;
+    if (!call) {
+      return res.status(404).json({ error: "call_not_found" });
+    }
+    if (call.direction !== "BUSINESS_INITIATED") {
+      return res
+        .status(400)
+        .json({ error: "Only business-initiated calls can be answered" });
+    }
+    if (call.state !== "ringing") {
+      return res.status(409).json({ error: "call_not_ringing" });
+    }
+
+    if (accept) {
+      applyCallAction(call, "accept", "user", { sdp_type: "answer", sdp });
+    } else {
+      applyCallAction(call, "reject", "user");
+    }
+
+    // Status first, then the connect (with the answer) or terminate event
+    const status = await forwardCallWebhook({
+      call,
+      statuses: [buildCallStatus(call, accept ? "ACCEPTED" : "REJECTED")],
+      source: "simulate-call",
+      appSecret: webhookAppSecret,
+    });
+    const event = await forwardCallWebhook({
+      call,
+      calls: [
+        accept ? buildCallConnectEvent(call) : buildCallTerminateEvent(call),
+      ],
+      source: "simulate-call",
+      appSecret: webhookAppSecret,
+    });
+
+    return res.status(200).json({
+      forwardedTo: event.forwardedTo,
+      payloads: [status.payload, event.payload],
+      forwardStatus: event.forwardStatus,
+      call,
+    });
+  });
+
+  // The user hangs up: a `terminate` webhook with duration and status
+  router.post("/calls/terminate", async (req: Request, res: Response) => {
+    const { callId, webhookAppSecret } = req.body as SimulateCallTerminateBody;
+
+    const call = callId ? getCall(callId) : undefined;
+    if (!call) {
+      return res.status(404).json({ error: "call_not_found" });
+    }
+    if (!canApplyCallAction(call, "terminate")) {
+      return res.status(409).json({ error: "call_already_ended" });
+    }
+
+    applyCallAction(call, "terminate", "user");
+    const result = await forwardCallWebhook({
+      call,
+      calls: [buildCallTerminateEvent(call)],
+      source: "simulate-call",
+      appSecret: webhookAppSecret,
+    });
+
+    return res.status(200).json({ ...result, call });
+  });
+
   // Separate, more explicit endpoints for media messages
   router.post("/image", async (req: Request, res: Response) => {
     const targetUrl = requireTarget(res);
@@ -358,6 +942,7 @@ export const createSimulateRouter = (): Router => {
       displayPhoneNumber = "0000000000",
       caption = "Sample image from sandbox",
       mediaUrl = "http://localhost:3737/media/sample-image.png",
+      mediaMode,
     } = req.body as SimulateImageBody;
 
     if (!from) {
@@ -365,7 +950,15 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-IMAGE-${Date.now()}`;
+    const messageId = createMessageId("IMAGE");
+
+    const media = resolveInboundMedia({
+      mediaUrl,
+      mimeType: "image/png",
+      phoneNumberId,
+      mediaMode,
+    });
+    if (!media) return sendMediaNotFound(res);
 
     const message: WabaImageMessage = {
       from,
@@ -374,18 +967,27 @@ export const createSimulateRouter = (): Router => {
       type: "image",
       image: {
         caption,
-        mime_type: "image/png",
-        link: mediaUrl,
+        ...media,
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -422,6 +1024,7 @@ export const createSimulateRouter = (): Router => {
       filename = "sample-document.pdf",
       caption = "Sample document from sandbox",
       mediaUrl = "http://localhost:3737/media/sample-document.pdf",
+      mediaMode,
     } = req.body as SimulateDocumentBody;
 
     if (!from) {
@@ -429,7 +1032,15 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-DOC-${Date.now()}`;
+    const messageId = createMessageId("DOC");
+
+    const media = resolveInboundMedia({
+      mediaUrl,
+      mimeType: "application/pdf",
+      phoneNumberId,
+      mediaMode,
+    });
+    if (!media) return sendMediaNotFound(res);
 
     const message: WabaDocumentMessage = {
       from,
@@ -439,18 +1050,27 @@ export const createSimulateRouter = (): Router => {
       document: {
         filename,
         caption,
-        mime_type: "application/pdf",
-        link: mediaUrl,
+        ...media,
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -483,6 +1103,7 @@ export const createSimulateRouter = (): Router => {
       displayPhoneNumber = "0000000000",
       voice = false,
       mediaUrl = "http://localhost:3737/media/sample-audio.ogg",
+      mediaMode,
       wabaId,
     } = req.body as SimulateAudioBody;
 
@@ -491,7 +1112,15 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-AUDIO-${Date.now()}`;
+    const messageId = createMessageId("AUDIO");
+
+    const media = resolveInboundMedia({
+      mediaUrl,
+      mimeType: "audio/ogg",
+      phoneNumberId,
+      mediaMode,
+    });
+    if (!media) return sendMediaNotFound(res);
 
     const message: WabaAudioMessage = {
       from,
@@ -499,13 +1128,16 @@ export const createSimulateRouter = (): Router => {
       timestamp,
       type: "audio",
       audio: {
-        mime_type: "audio/ogg",
         voice,
-        link: mediaUrl,
+        ...media,
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
@@ -520,6 +1152,12 @@ export const createSimulateRouter = (): Router => {
     const targetUrl = targetContext?.url ?? requireTarget(res);
     if (!targetUrl) return;
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -555,7 +1193,8 @@ export const createSimulateRouter = (): Router => {
       phoneNumberId = "000000000000000",
       displayPhoneNumber = "0000000000",
       caption = "Sample video from sandbox",
-      mediaUrl = "http://localhost:3737/media/sample-video.mp4",
+      mediaUrl = "http://localhost:3737/media/sample-video-5s.mp4",
+      mediaMode,
     } = req.body as SimulateVideoBody;
 
     if (!from) {
@@ -563,7 +1202,15 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-VIDEO-${Date.now()}`;
+    const messageId = createMessageId("VIDEO");
+
+    const media = resolveInboundMedia({
+      mediaUrl,
+      mimeType: "video/mp4",
+      phoneNumberId,
+      mediaMode,
+    });
+    if (!media) return sendMediaNotFound(res);
 
     const message: WabaVideoMessage = {
       from,
@@ -571,19 +1218,28 @@ export const createSimulateRouter = (): Router => {
       timestamp,
       type: "video",
       video: {
-        mime_type: "video/mp4",
         caption,
-        link: mediaUrl,
+        ...media,
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -630,7 +1286,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-LOCATION-${Date.now()}`;
+    const messageId = createMessageId("LOCATION");
 
     const message: WabaLocationMessage = {
       from,
@@ -645,13 +1301,23 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -704,7 +1370,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-CONTACT-${Date.now()}`;
+    const messageId = createMessageId("CONTACT");
 
     const nameObj: WabaContactsMessage["contacts"][number]["name"] = {
       formatted_name: formattedName,
@@ -760,13 +1426,23 @@ export const createSimulateRouter = (): Router => {
       contacts: [contact],
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -801,6 +1477,7 @@ export const createSimulateRouter = (): Router => {
       phoneNumberId = "000000000000000",
       displayPhoneNumber = "0000000000",
       mediaUrl = "http://localhost:3737/media/sample-sticker.webp",
+      mediaMode,
     } = req.body as SimulateStickerBody;
 
     if (!from) {
@@ -810,7 +1487,15 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-STICKER-${Date.now()}`;
+    const messageId = createMessageId("STICKER");
+
+    const media = resolveInboundMedia({
+      mediaUrl,
+      mimeType: "image/webp",
+      phoneNumberId,
+      mediaMode,
+    });
+    if (!media) return sendMediaNotFound(res);
 
     const message: WabaStickerMessage = {
       from,
@@ -818,18 +1503,27 @@ export const createSimulateRouter = (): Router => {
       timestamp,
       type: "sticker",
       sticker: {
-        mime_type: "image/webp",
-        link: mediaUrl,
+        ...media,
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -874,7 +1568,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const reactionMessageId = `wamid.SANDBOX-REACTION-${Date.now()}`;
+    const reactionMessageId = createMessageId("REACTION");
 
     const message: WabaReactionMessage = {
       from,
@@ -887,13 +1581,23 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -938,7 +1642,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-TEMPLATE-${Date.now()}`;
+    const messageId = createMessageId("TEMPLATE");
 
     const message: WabaTemplateMessage = {
       from,
@@ -951,13 +1655,23 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -1002,7 +1716,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-INT-BUTTONS-${Date.now()}`;
+    const messageId = createMessageId("INT-BUTTONS");
 
     const message: WabaInteractiveMessage = {
       from,
@@ -1018,13 +1732,23 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -1070,7 +1794,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-INT-LIST-${Date.now()}`;
+    const messageId = createMessageId("INT-LIST");
 
     const listReply: NonNullable<
       WabaInteractiveMessage["interactive"]["list_reply"]
@@ -1093,13 +1817,23 @@ export const createSimulateRouter = (): Router => {
       },
     };
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const payload = buildBasePayload(message, {
+      referral,
       waId,
       name,
       phoneNumberId,
       displayPhoneNumber,
     });
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -1136,6 +1870,7 @@ export const createSimulateRouter = (): Router => {
         phoneNumberId = "000000000000000",
         displayPhoneNumber = "0000000000",
         productIds = [],
+        catalogId,
       } = req.body as SimulateInteractiveProductCarouselBody;
 
       if (!from || !productIds || productIds.length === 0) {
@@ -1144,8 +1879,26 @@ export const createSimulateRouter = (): Router => {
         });
       }
 
+      // With a catalog in play, products must exist in it
+      const catalog = catalogId
+        ? getCatalog(catalogId)
+        : getCatalogForPhone(phoneNumberId);
+      if (catalogId && !catalog) {
+        return res.status(404).json({ error: "catalog_not_found" });
+      }
+      if (catalog) {
+        const unknown = productIds.filter((p) => !getProduct(catalog.id, p));
+        if (unknown.length > 0) {
+          return res.status(400).json({
+            error: "unknown_products",
+            catalogId: catalog.id,
+            productIds: unknown,
+          });
+        }
+      }
+
       const timestamp = Math.floor(Date.now() / 1000).toString();
-      const messageId = `wamid.SANDBOX-INT-PRODUCT-${Date.now()}`;
+      const messageId = createMessageId("INT-PRODUCT");
 
       const message: WabaInteractiveMessage = {
         from,
@@ -1158,13 +1911,23 @@ export const createSimulateRouter = (): Router => {
         },
       };
 
+      const referral = resolveReferral(req, res);
+      if (referral === null) return;
+
       const payload = buildBasePayload(message, {
+        referral,
         waId,
         name,
         phoneNumberId,
         displayPhoneNumber,
       });
 
+      recordInboundMessage({
+        phoneId: phoneNumberId,
+        waId,
+        referral: referral !== undefined,
+      });
+
       const forwarder = new WebhookForwarder(targetUrl);
       const result = await forwarder.forward(payload);
 
@@ -1211,7 +1974,7 @@ export const createSimulateRouter = (): Router => {
       }
 
       const timestamp = Math.floor(Date.now() / 1000).toString();
-      const messageId = `wamid.SANDBOX-INT-MEDIA-${Date.now()}`;
+      const messageId = createMessageId("INT-MEDIA");
 
       const message: WabaInteractiveMessage = {
         from,
@@ -1224,13 +1987,23 @@ export const createSimulateRouter = (): Router => {
         },
       };
 
+      const referral = resolveReferral(req, res);
+      if (referral === null) return;
+
       const payload = buildBasePayload(message, {
+        referral,
         waId,
         name,
         phoneNumberId,
         displayPhoneNumber,
       });
 
+      recordInboundMessage({
+        phoneId: phoneNumberId,
+        waId,
+        referral: referral !== undefined,
+      });
+
       const forwarder = new WebhookForwarder(targetUrl);
       const result = await forwarder.forward(payload);
 
@@ -1270,6 +2043,8 @@ export const createSimulateRouter = (): Router => {
         flowAction = "complete",
         flowActionPayload = {},
         flowCta = "Open",
+        responseJson,
+        contextMessageId,
         wabaId,
       } = req.body as SimulateFlowCompleteBody;
 
@@ -1280,26 +2055,55 @@ export const createSimulateRouter = (): Router => {
       }
 
       const timestamp = Math.floor(Date.now() / 1000).toString();
-      const messageId = `wamid.SANDBOX-FLOW-${Date.now()}`;
+      const messageId = createMessageId("FLOW");
+
+      // With collected values, send the Cloud API `nfm_reply` shape
+      const message: WabaInteractiveMessage & {
+        context?: { from: string; id: string };
+      } =
+        responseJson && typeof responseJson === "object"
+          ? {
+              from,
+              id: messageId,
+              timestamp,
+              type: "interactive",
+              interactive: {
+                type: "nfm_reply",
+                nfm_reply: {
+                  name: "flow",
+                  body: "Sent",
+                  response_json: JSON.stringify({
+                    ...responseJson,
+                    flow_token: flowToken,
+                  }),
+                },
+              },
+            }
+          : {
+              from,
+              id: messageId,
+              timestamp,
+              type: "interactive",
+              interactive: {
+                type: "flow",
+                flow_token: flowToken,
+                flow_id: flowId,
+                flow_name: flowName,
+                flow_action: flowAction,
+                flow_action_payload: flowActionPayload,
+                flow_cta: flowCta,
+                flow_status: "completed",
+              },
+            };
+      if (contextMessageId) {
+        message.context = { from: displayPhoneNumber, id: contextMessageId };
+      }
 
-      const message: WabaInteractiveMessage = {
-        from,
-        id: messageId,
-        timestamp,
-        type: "interactive",
-        interactive: {
-          type: "flow",
-          flow_token: flowToken,
-          flow_id: flowId,
-          flow_name: flowName,
-          flow_action: flowAction,
-          flow_action_payload: flowActionPayload,
-          flow_cta: flowCta,
-          flow_status: "completed",
-        },
-      };
+      const referral = resolveReferral(req, res);
+      if (referral === null) return;
 
       const payload = buildBasePayload(message, {
+        referral,
         waId,
         name,
         phoneNumberId,
@@ -1314,6 +2118,12 @@ export const createSimulateRouter = (): Router => {
       const targetUrl = targetContext?.url ?? requireTarget(res);
       if (!targetUrl) return;
 
+      recordInboundMessage({
+        phoneId: phoneNumberId,
+        waId,
+        referral: referral !== undefined,
+      });
+
       const forwarder = new WebhookForwarder(targetUrl);
       const result = await forwarder.forward(payload);
 
@@ -1339,6 +2149,205 @@ export const createSimulateRouter = (): Router => {
     }
   );
 
+  // Cart order sent from a catalog, product or product_list message
+  router.post("/order", async (req: Request, res: Response) => {
+    const {
+      from,
+      waId = from,
+      name = "Sandbox User",
+      phoneNumberId = "000000000000000",
+      displayPhoneNumber = "0000000000",
+      catalogId,
+      text,
+      items = [],
+      contextMessageId,
+      wabaId,
+    } = req.body as SimulateOrderBody;
+
+    if (!from || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        error: "'from' and at least one 'items' entry are required",
+      });
+    }
+
+    const catalog = catalogId
+      ? getCatalog(catalogId)
+      : getCatalogForPhone(phoneNumberId);
+    if (!catalog) {
+      return res.status(404).json({
+        error: catalogId
+          ? "catalog_not_found"
+          : "no_catalog_connected_to_phone_number",
+      });
+    }
+
+    if (!getCommerceSettings(phoneNumberId).isCartEnabled) {
+      return res.status(409).json({
+        error: "cart_disabled",
+        message:
+          "Enable the cart with POST /<PHONE_ID>/whatsapp_commerce_settings?is_cart_enabled=true",
+      });
+    }
+
+    const productItems: WabaOrderProductItem[] = [];
+    for (const item of items) {
+      const product = item?.retailerId
+        ? getProduct(catalog.id, item.retailerId)
+        : undefined;
+      if (!product) {
+        return res.status(400).json({
+          error: "unknown_product",
+          catalogId: catalog.id,
+          retailerId: item?.retailerId ?? null,
+        });
+      }
+      if (!isProductSendable(product)) {
+        return res.status(400).json({
+          error: "product_unavailable",
+          retailerId: product.retailerId,
+          availability: product.availability,
+        });
+      }
+      const quantity = item.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({
+          error: "quantity_must_be_a_positive_integer",
+          retailerId: product.retailerId,
+        });
+      }
+      productItems.push({
+        product_retailer_id: product.retailerId,
+        quantity,
+        item_price: item.itemPrice ?? product.price,
+        currency: item.currency ?? product.currency,
+      });
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const messageId = createMessageId("ORDER");
+
+    const message: WabaOrderMessage = {
+      from,
+      id: messageId,
+      timestamp,
+      type: "order",
+      order: {
+        catalog_id: catalog.id,
+        ...(text ? { text } : {}),
+        product_items: productItems,
+      },
+    };
+    if (contextMessageId) {
+      message.context = {
+        from:
+          getPhoneNumber(phoneNumberId)?.displayPhoneNumber ||
+          displayPhoneNumber,
+        id: contextMessageId,
+      };
+    }
+
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
+    const payload = buildBasePayload(message, {
+      referral,
+      waId,
+      name,
+      phoneNumberId,
+      displayPhoneNumber,
+    });
+
+    const targetContext =
+      resolveWebhookTarget({
+        ...(phoneNumberId ? { phoneNumberId } : {}),
+        ...(wabaId ? { wabaId } : {}),
+      }) ?? null;
+    const targetUrl = targetContext?.url ?? requireTarget(res);
+    if (!targetUrl) return;
+
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
+    const forwarder = new WebhookForwarder(targetUrl);
+    const result = await forwarder.forward(payload, {
+      appSecret: targetContext?.appSecret || undefined,
+    });
+
+    addEvent({
+      direction: "outbound",
+      type: "simulate.message",
+      source: "simulate-order",
+      payload,
+      meta: {
+        targetUrl,
+        forwardStatus: result.status,
+        policy: evaluatePolicyForWaId(waId),
+        resolvedSource: targetContext?.source ?? "app",
+      },
+    });
+
+    return res.status(200).json({
+      forwardedTo: targetUrl,
+      messageId,
+      payload,
+      forwardStatus: result.status,
+    });
+  });
+
+  // Act as the WhatsApp client against a Flow data_exchange endpoint
+  router.post("/flows/endpoint", async (req: Request, res: Response) => {
+    const {
+      phoneNumberId,
+      flowId,
+      endpointUri,
+      action = "ping",
+      screen,
+      data,
+      flowToken = "sandbox-flow-token",
+      version = "3.0",
+    } = (req.body ?? {}) as SimulateFlowEndpointBody;
+
+    if (!phoneNumberId) {
+      return res.status(400).json({ error: "'phoneNumberId' is required" });
+    }
+    if (!FLOW_ENDPOINT_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        error: `'action' must be one of: ${FLOW_ENDPOINT_ACTIONS.join(", ")}`,
+      });
+    }
+
+    const flow = flowId ? getFlow(flowId) : undefined;
+    if (flowId && !flow) {
+      return res.status(404).json({ error: "flow_not_found" });
+    }
+
+    const targetUri = endpointUri || flow?.endpointUri;
+    if (!targetUri) {
+      return res.status(400).json({
+        error: "'endpointUri' is required when the flow has no endpoint_uri",
+      });
+    }
+
+    // ping carries no flow context; BACK and data_exchange name the screen
+    const request: FlowEndpointRequest = { version, action };
+    if (action !== "ping") {
+      request.flow_token = flowToken;
+      if (action !== "INIT" && screen) request.screen = screen;
+      if (data && typeof data === "object") request.data = data;
+    }
+
+    const result = await callFlowEndpoint({
+      phoneId: phoneNumberId,
+      endpointUri: targetUri,
+      request,
+      ...(flow ? { flow } : {}),
+    });
+    return res.status(200).json(result);
+  });
+
   router.post("/context-reply", async (req: Request, res: Response) => {
     const targetUrl = requireTarget(res);
     if (!targetUrl) return;
@@ -1359,8 +2368,11 @@ export const createSimulateRouter = (): Router => {
       });
     }
 
+    const referral = resolveReferral(req, res);
+    if (referral === null) return;
+
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-CONTEXT-${Date.now()}`;
+    const messageId = createMessageId("CONTEXT");
 
     const message: WabaTextMessage & {
       context: { message_id: string };
@@ -1375,6 +2387,7 @@ export const createSimulateRouter = (): Router => {
       context: {
         message_id: contextMessageId,
       },
+      ...(referral ? { referral } : {}),
     };
 
     const payload: WabaWebhookPayload = {
@@ -1405,6 +2418,12 @@ export const createSimulateRouter = (): Router => {
       ],
     };
 
+    recordInboundMessage({
+      phoneId: phoneNumberId,
+      waId,
+      referral: referral !== undefined,
+    });
+
     const forwarder = new WebhookForwarder(targetUrl);
     const result = await forwarder.forward(payload);
 
@@ -1449,7 +2468,7 @@ export const createSimulateRouter = (): Router => {
     }
 
     const timestamp = Math.floor(Date.now() / 1000).toString();
-    const messageId = `wamid.SANDBOX-TYPING-${Date.now()}`;
+    const messageId = createMessageId("TYPING");
 
     const payload: WabaWebhookPayload = {
       object: "whatsapp_business_account",
@@ -1509,5 +2528,91 @@ export const createSimulateRouter = (): Router => {
     });
   });
 
+  // Recipient blocks/reports against a template, driving its quality score
+  router.post("/template-feedback", (req: Request, res: Response) => {
+    const { templateId, type, count } = req.body ?? {};
+
+    if (typeof templateId !== "string" || !templateId) {
+      return res.status(400).json({ error: "'templateId' is required" });
+    }
+    if (type !== "block" && type !== "report") {
+      return res
+        .status(400)
+        .json({ error: "'type' must be 'block' or 'report'" });
+    }
+    const amount =
+      typeof count === "number" && Number.isInteger(count) && count > 0
+        ? count
+        : 1;
+
+    const result = applyTemplateFeedback(templateId, type, amount);
+    if (!result) {
+      return res.status(404).json({ error: "template_not_found" });
+    }
+
+    addEvent({
+      direction: "system",
+      type: "simulate.account_update",
+      source: "simulate-template-feedback",
+      payload: { templateId, type, count: amount },
+      meta: {
+        quality: result.template.quality ?? null,
+        status: result.template.status,
+      },
+    });
+
+    return res.status(200).json({
+      templateId,
+      status: result.template.status,
+      quality: result.template.quality ?? { score: "UNKNOWN" },
+      feedback: result.feedback,
+    });
+  });
+
+  // Recipient blocks/reports (or reads) against a phone number's quality rating
+  router.post("/phone-feedback", (req: Request, res: Response) => {
+    const { phoneNumberId, type, count } = req.body ?? {};
+
+    if (typeof phoneNumberId !== "string" || !phoneNumberId) {
+      return res.status(400).json({ error: "'phoneNumberId' is required" });
+    }
+    if (type !== "block" && type !== "report" && type !== "read") {
+      return res
+        .status(400)
+        .json({ error: "'type' must be 'block', 'report' or 'read'" });
+    }
+    if (
+      typeof count === "number" &&
+      (!Number.isInteger(count) || count > MAX_SIGNALS_PER_CALL)
+    ) {
+      return res.status(400).json({
+        error: `'count' must be an integer of at most ${MAX_SIGNALS_PER_CALL}`,
+      });
+    }
+    if (!getPhoneNumber(phoneNumberId)) {
+      return res.status(404).json({ error: "phone_not_found" });
+    }
+    const amount =
+      typeof count === "number" && Number.isInteger(count) && count > 0
+        ? count
+        : 1;
+
+    const result = recordPhoneSignal(phoneNumberId, type, amount);
+
+    addEvent({
+      direction: "system",
+      type: "simulate.account_update",
+      source: "simulate-phone-feedback",
+      payload: { phoneNumberId, type, count: amount },
+      meta: { qualityRating: result.rating ?? null, stats: result.stats },
+    });
+
+    return res.status(200).json({
+      phoneNumberId,
+      qualityRating: result.rating ?? null,
+      stats: result.stats,
+    });
+  });
+
   return router;
 };
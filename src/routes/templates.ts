@@ -4,8 +4,18 @@ import {
   deleteTemplate,
   getTemplateById,
   listTemplates,
+  normalizeTemplateCategory,
   updateTemplate,
 } from "../state/templates";
+import {
+  getTemplateReviewConfig,
+  updateTemplateReviewConfig,
+} from "../state/templateReview";
+import {
+  getTemplateFeedback,
+  getTemplateQualityConfig,
+  updateTemplateQualityConfig,
+} from "../state/templateQuality";
 
 export const createTemplatesRouter = (): Router => {
   const router = Router();
@@ -14,6 +24,24 @@ export const createTemplatesRouter = (): Router => {
     res.json({ templates: listTemplates() });
   });
 
+  // Automated review settings for templates created via Graph
+  router.get("/review-config", (_req: Request, res: Response) => {
+    res.json(getTemplateReviewConfig());
+  });
+
+  router.put("/review-config", (req: Request, res: Response) => {
+    res.json(updateTemplateReviewConfig(req.body ?? {}));
+  });
+
+  // Quality thresholds and auto-pause durations
+  router.get("/quality-config", (_req: Request, res: Response) => {
+    res.json(getTemplateQualityConfig());
+  });
+
+  router.put("/quality-config", (req: Request, res: Response) => {
+    res.json(updateTemplateQualityConfig(req.body ?? {}));
+  });
+
   router.post("/", (req: Request, res: Response) => {
     const { name, languageCode, category, bodyText, headerText, footerText } =
       req.body ?? {};
@@ -53,6 +81,42 @@ export const createTemplatesRouter = (): Router => {
     return res.json(tpl);
   });
 
+  // Simulates Meta re-categorizing a template (emits template_category_update)
+  router.post("/:id/recategorize", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    const category = normalizeTemplateCategory(req.body?.category);
+    if (category === "UNKNOWN") {
+      return res.status(400).json({
+        error: "category_must_be_marketing_utility_or_authentication",
+      });
+    }
+    const tpl = updateTemplate(id, { category });
+    if (!tpl) {
+      return res.status(404).json({ error: "template_not_found" });
+    }
+    return res.json(tpl);
+  });
+
+  router.get("/:id/quality", (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "id_required" });
+    }
+    const tpl = getTemplateById(id);
+    if (!tpl) {
+      return res.status(404).json({ error: "template_not_found" });
+    }
+    return res.json({
+      templateId: tpl.id,
+      status: tpl.status,
+      quality: tpl.quality ?? { score: "UNKNOWN" },
+      feedback: getTemplateFeedback(tpl.id),
+    });
+  });
+
   router.delete("/:id", (req: Request, res: Response) => {
     const { id } = req.params;
     if (!id) {
@@ -0,0 +1,77 @@
+import { WebhookForwarder } from "./forwarder";
+import {
+  WabaAccountChange,
+  WabaAccountWebhookPayload,
+} from "../types/waba";
+import { addEvent } from "../state/eventStore";
+import { resolveWebhookTarget } from "../state/webhookRouting";
+
+const DEFAULT_WABA_ID = "sandbox-whatsapp-business-account";
+
+/**
+ * Forwards a single account-level change (e.g. `message_template_status_update`)
+ * to the target resolved for the phone number or WABA, falling back to the app
+ * webhook.
+ */
+export const forwardAccountUpdate = async (params: {
+  wabaId?: string | undefined;
+  phoneNumberId?: string | undefined;
+  change: WabaAccountChange;
+  source: string;
+}): Promise<void> => {
+  const payload: WabaAccountWebhookPayload = {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: params.wabaId ?? DEFAULT_WABA_ID,
+        time: Math.floor(Date.now() / 1000),
+        changes: [params.change],
+      },
+    ],
+  };
+
+  const target = resolveWebhookTarget({
+    ...(params.phoneNumberId ? { phoneNumberId: params.phoneNumberId } : {}),
+    ...(params.wabaId ? { wabaId: params.wabaId } : {}),
+  });
+  if (!target) {
+    addEvent({
+      direction: "system",
+      type: "simulate.account_update",
+      source: params.source,
+      payload,
+      meta: { skipped: "no_webhook_target_configured" },
+    });
+    return;
+  }
+
+  try {
+    const forwarder = new WebhookForwarder(target.url);
+    const result = await forwarder.forward(payload, {
+      appSecret: target.appSecret,
+    });
+    addEvent({
+      direction: "outbound",
+      type: "simulate.account_update",
+      source: params.source,
+      payload,
+      meta: {
+        targetUrl: target.url,
+        forwardStatus: result.status,
+        resolvedSource: target.source,
+      },
+    });
+  } catch (err) {
+    addEvent({
+      direction: "outbound",
+      type: "simulate.account_update",
+      source: params.source,
+      payload,
+      meta: {
+        targetUrl: target.url,
+        error: err instanceof Error ? err.message : String(err),
+        resolvedSource: target.source,
+      },
+    });
+  }
+};
@@ -0,0 +1,172 @@
+import { WebhookForwarder } from "./forwarder";
+import {
+  WabaCallEvent,
+  WabaCallStatus,
+  WabaCallsWebhookValue,
+  WabaAccountWebhookPayload,
+} from "../types/waba";
+import { addEvent } from "../state/eventStore";
+import { getPhoneNumber, resolveWebhookTarget } from "../state/webhookRouting";
+import { getCallDuration, WhatsAppCall } from "../state/calls";
+
+const DEFAULT_WABA_ID = "sandbox-whatsapp-business-account";
+
+const toUnixString = (ms: number): string =>
+  Math.floor(ms / 1000).toString();
+
+// The business number is `to` for user-initiated calls and `from` otherwise
+const callParties = (call: WhatsAppCall): { from: string; to: string } => {
+  const business = getPhoneNumber(call.phoneId)?.displayPhoneNumber ?? "";
+  return call.direction === "USER_INITIATED"
+    ? { from: call.waId, to: business }
+    : { from: business, to: call.waId };
+};
+
+/**
+ * `connect` event: carries the user's SDP offer for user-initiated calls and
+ * the user's SDP answer once a business-initiated call is picked up.
+ */
+export const buildCallConnectEvent = (call: WhatsAppCall): WabaCallEvent => {
+  const session =
+    call.direction === "USER_INITIATED" ? call.offer : call.answer;
+  return {
+    id: call.id,
+    ...callParties(call),
+    event: "connect",
+    timestamp: toUnixString(Date.now()),
+    direction: call.direction,
+    ...(session ? { session } : {}),
+    ...(call.bizOpaqueCallbackData
+      ? { biz_opaque_callback_data: call.bizOpaqueCallbackData }
+      : {}),
+  };
+};
+
+/** `terminate` event, sent however the call ended */
+export const buildCallTerminateEvent = (call: WhatsAppCall): WabaCallEvent => ({
+  id: call.id,
+  ...callParties(call),
+  event: "terminate",
+  timestamp: toUnixString(call.endedAt ?? Date.now()),
+  direction: call.direction,
+  status: call.endStatus ?? "FAILED",
+  ...(call.acceptedAt && call.endedAt
+    ? {
+        start_time: toUnixString(call.acceptedAt),
+        end_time: toUnixString(call.endedAt),
+        duration: getCallDuration(call),
+      }
+    : {}),
+  ...(call.bizOpaqueCallbackData
+    ? { biz_opaque_callback_data: call.bizOpaqueCallbackData }
+    : {}),
+});
+
+export const buildCallStatus = (
+  call: WhatsAppCall,
+  status: WabaCallStatus["status"]
+): WabaCallStatus => ({
+  id: call.id,
+  type: "call",
+  status,
+  timestamp: toUnixString(Date.now()),
+  recipient_id: call.waId,
+  ...(call.bizOpaqueCallbackData
+    ? { biz_opaque_callback_data: call.bizOpaqueCallbackData }
+    : {}),
+});
+
+export interface CallWebhookResult {
+  payload: WabaAccountWebhookPayload;
+  forwardedTo: string | null;
+  forwardStatus: number | null;
+}
+
+/**
+ * Forwards a `calls` change for the call's phone number to the resolved
+ * webhook target and records it in the event stream.
+ */
+export const forwardCallWebhook = async (params: {
+  call: WhatsAppCall;
+  calls?: WabaCallEvent[];
+  statuses?: WabaCallStatus[];
+  contactName?: string;
+  source: string;
+  appSecret?: string | undefined;
+}): Promise<CallWebhookResult> => {
+  const { call } = params;
+  const phone = getPhoneNumber(call.phoneId);
+  const value: WabaCallsWebhookValue = {
+    messaging_product: "whatsapp",
+    metadata: {
+      display_phone_number: phone?.displayPhoneNumber ?? "",
+      phone_number_id: call.phoneId,
+    },
+    ...(params.contactName
+      ? {
+          contacts: [
+            { profile: { name: params.contactName }, wa_id: call.waId },
+          ],
+        }
+      : {}),
+    ...(params.calls ? { calls: params.calls } : {}),
+    ...(params.statuses ? { statuses: params.statuses } : {}),
+  };
+  const payload: WabaAccountWebhookPayload = {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: phone?.wabaId ?? DEFAULT_WABA_ID,
+        time: Math.floor(Date.now() / 1000),
+        changes: [{ field: "calls", value: { ...value } }],
+      },
+    ],
+  };
+
+  const meta = { callId: call.id, callState: call.state };
+  const target = resolveWebhookTarget({ phoneNumberId: call.phoneId });
+  if (!target) {
+    addEvent({
+      direction: "system",
+      type: "simulate.call",
+      source: params.source,
+      payload,
+      meta: { ...meta, skipped: "no_webhook_target_configured" },
+    });
+    return { payload, forwardedTo: null, forwardStatus: null };
+  }
+
+  try {
+    const forwarder = new WebhookForwarder(target.url);
+    const result = await forwarder.forward(payload, {
+      appSecret: params.appSecret || target.appSecret,
+    });
+    addEvent({
+      direction: "outbound",
+      type: "simulate.call",
+      source: params.source,
+      payload,
+      meta: {
+        ...meta,
+        targetUrl: target.url,
+        forwardStatus: result.status,
+        resolvedSource: target.source,
+      },
+    });
+    return { payload, forwardedTo: target.url, forwardStatus: result.status };
+  } catch (err) {
+    addEvent({
+      direction: "outbound",
+      type: "simulate.call",
+      source: params.source,
+      payload,
+      meta: {
+        ...meta,
+        targetUrl: target.url,
+        error: err instanceof Error ? err.message : String(err),
+        resolvedSource: target.source,
+      },
+    });
+    return { payload, forwardedTo: target.url, forwardStatus: null };
+  }
+};
@@ -0,0 +1,300 @@
+import axios from "axios";
+import crypto from "crypto";
+import { getConfig } from "../config";
+import { addEvent } from "../state/eventStore";
+import { getBusinessEncryptionKey } from "../state/businessEncryption";
+import { WhatsAppFlow } from "../state/flows";
+import { validateFlowJson } from "./flowValidation";
+
+export type FlowEndpointAction = "ping" | "INIT" | "BACK" | "data_exchange";
+
+export const FLOW_ENDPOINT_ACTIONS: FlowEndpointAction[] = [
+  "ping",
+  "INIT",
+  "BACK",
+  "data_exchange",
+];
+
+/** Decrypted body of a data_exchange request, as the WhatsApp client sends it */
+export interface FlowEndpointRequest {
+  version: string;
+  action: FlowEndpointAction;
+  screen?: string;
+  data?: Record<string, unknown>;
+  flow_token?: string;
+}
+
+export interface EncryptedFlowRequest {
+  encrypted_flow_data: string;
+  encrypted_aes_key: string;
+  initial_vector: string;
+}
+
+export interface FlowEndpointResult {
+  ok: boolean;
+  endpointUri: string;
+  status?: number;
+  durationMs: number;
+  request: FlowEndpointRequest;
+  /** Decrypted endpoint response, when it could be decrypted */
+  response?: unknown;
+  errors: string[];
+}
+
+const TAG_LENGTH = 16;
+
+// The endpoint must answer with the request IV with every bit flipped
+const flipIv = (iv: Buffer): Buffer => Buffer.from(iv.map((b) => b ^ 0xff));
+
+/**
+ * Encrypts a request like the WhatsApp client: a fresh AES-128-GCM key
+ * wrapped with the business public key (RSA-OAEP, SHA-256).
+ */
+export const encryptFlowRequest = (
+  payload: FlowEndpointRequest,
+  publicKey: string
+): { body: EncryptedFlowRequest; aesKey: Buffer; iv: Buffer } => {
+  const aesKey = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(16);
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", aesKey, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const wrappedKey = crypto.publicEncrypt(
+    {
+      key: publicKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    aesKey
+  );
+
+  return {
+    body: {
+      encrypted_flow_data: encrypted.toString("base64"),
+      encrypted_aes_key: wrappedKey.toString("base64"),
+      initial_vector: iv.toString("base64"),
+    },
+    aesKey,
+    iv,
+  };
+};
+
+/** Decrypts a base64 endpoint response encrypted with the flipped IV */
+export const decryptFlowResponse = (
+  body: string,
+  aesKey: Buffer,
+  iv: Buffer
+): unknown => {
+  const raw = Buffer.from(body.trim(), "base64");
+  if (raw.length <= TAG_LENGTH) {
+    throw new Error("Encrypted response is too short");
+  }
+
+  const decipher = crypto.createDecipheriv("aes-128-gcm", aesKey, flipIv(iv));
+  decipher.setAuthTag(raw.subarray(raw.length - TAG_LENGTH));
+  const decrypted = Buffer.concat([
+    decipher.update(raw.subarray(0, raw.length - TAG_LENGTH)),
+    decipher.final(),
+  ]);
+  return JSON.parse(decrypted.toString("utf8"));
+};
+
+/**
+ * Checks a decrypted response against what the client accepts: `ping` needs
+ * `data.status: "active"`, other actions a known next screen, and the
+ * terminal `SUCCESS` screen needs `extension_message_response.params`.
+ */
+export const validateFlowEndpointResponse = (
+  action: FlowEndpointAction,
+  response: unknown,
+  opts?: { screenIds?: string[]; flowToken?: string }
+): string[] => {
+  if (!response || typeof response !== "object" || Array.isArray(response)) {
+    return ["Response must be a JSON object"];
+  }
+
+  const body = response as Record<string, any>;
+  const data = body.data;
+
+  if (action === "ping") {
+    return data?.status === "active"
+      ? []
+      : ['Health check response must be { "data": { "status": "active" } }'];
+  }
+
+  const errors: string[] = [];
+  if (typeof body.screen !== "string" || !body.screen) {
+    errors.push("Response is missing the next 'screen'");
+  }
+  if (data !== undefined && (!data || typeof data !== "object")) {
+    errors.push("'data' must be an object");
+  }
+
+  if (body.screen === "SUCCESS") {
+    const params = data?.extension_message_response?.params;
+    if (!params || typeof params !== "object") {
+      errors.push(
+        "SUCCESS responses need data.extension_message_response.params"
+      );
+    } else if (opts?.flowToken && params.flow_token !== opts.flowToken) {
+      errors.push(
+        "extension_message_response.params.flow_token must match the request flow_token"
+      );
+    }
+  } else if (
+    typeof body.screen === "string" &&
+    opts?.screenIds?.length &&
+    !opts.screenIds.includes(body.screen)
+  ) {
+    errors.push(`Screen '${body.screen}' does not exist in the flow JSON`);
+  }
+
+  return errors;
+};
+
+// Status codes the client treats specially instead of as plain failures
+const describeEndpointStatus = (status: number): string => {
+  if (status === 421) {
+    return "Endpoint could not decrypt the request (421); the client would re-fetch the business public key and retry";
+  }
+  if (status === 427) {
+    return "Endpoint invalidated the flow token (427); the client would close the flow";
+  }
+  if (status === 432) {
+    return "Endpoint rejected the request signature (432)";
+  }
+  return `Endpoint returned HTTP ${status}`;
+};
+
+/**
+ * Plays the WhatsApp client side of one data_exchange round trip: encrypts
+ * the request with the phone's business public key, calls the endpoint,
+ * decrypts and validates the response, and logs it in the event stream.
+ */
+export const callFlowEndpoint = async (params: {
+  phoneId: string;
+  endpointUri: string;
+  request: FlowEndpointRequest;
+  flow?: WhatsAppFlow;
+}): Promise<FlowEndpointResult> => {
+  const { phoneId, endpointUri, request, flow } = params;
+  const startedAt = Date.now();
+  const result: FlowEndpointResult = {
+    ok: false,
+    endpointUri,
+    durationMs: 0,
+    request,
+    errors: [],
+  };
+
+  const finish = (): FlowEndpointResult => {
+    result.durationMs = Date.now() - startedAt;
+    result.ok = result.errors.length === 0;
+    addEvent({
+      direction: "outbound",
+      type: "flow.data_exchange",
+      source: "flow-endpoint",
+      payload: {
+        request,
+        response: result.response ?? null,
+      },
+      meta: {
+        phoneId,
+        endpointUri,
+        status: result.status ?? null,
+        durationMs: result.durationMs,
+        ok: result.ok,
+        errors: result.errors,
+        ...(flow ? { flowId: flow.id } : {}),
+      },
+    });
+    return result;
+  };
+
+  const key = getBusinessEncryptionKey(phoneId);
+  if (!key) {
+    result.errors.push(
+      "No business public key for this phone number. Upload one via POST /<PHONE_ID>/whatsapp_business_encryption"
+    );
+    return finish();
+  }
+
+  let encrypted: ReturnType<typeof encryptFlowRequest>;
+  try {
+    encrypted = encryptFlowRequest(request, key.publicKey);
+  } catch (err) {
+    result.errors.push(
+      `Could not encrypt the request: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return finish();
+  }
+
+  const body = JSON.stringify(encrypted.body);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  const secret =
+    getConfig().webhookAppSecret || process.env.WHATSAPP_APP_SECRET;
+  if (secret) {
+    const sig = crypto.createHmac("sha256", secret).update(body).digest("hex");
+    headers["X-Hub-Signature-256"] = `sha256=${sig}`;
+  }
+
+  let responseBody: string;
+  try {
+    const response = await axios.post(endpointUri, body, {
+      headers,
+      timeout: 10_000,
+      responseType: "text",
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+    result.status = response.status;
+    responseBody = typeof response.data === "string" ? response.data : "";
+  } catch (err) {
+    result.errors.push(
+      `Endpoint request failed: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return finish();
+  }
+
+  if (result.status !== 200) {
+    result.errors.push(describeEndpointStatus(result.status));
+    return finish();
+  }
+
+  try {
+    result.response = decryptFlowResponse(
+      responseBody,
+      encrypted.aesKey,
+      encrypted.iv
+    );
+  } catch (err) {
+    result.errors.push(
+      `Response could not be decrypted (expected base64 AES-GCM with the flipped IV): ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return finish();
+  }
+
+  const screenIds = flow?.flowJson
+    ? validateFlowJson(flow.flowJson).screenIds
+    : undefined;
+  result.errors.push(
+    ...validateFlowEndpointResponse(request.action, result.response, {
+      ...(screenIds ? { screenIds } : {}),
+      ...(request.flow_token ? { flowToken: request.flow_token } : {}),
+    })
+  );
+  return finish();
+};
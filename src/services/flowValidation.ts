@@ -0,0 +1,250 @@
+import { FlowValidationError } from "../state/flows";
+
+export interface FlowJsonValidation {
+  errors: FlowValidationError[];
+  jsonVersion?: string;
+  dataApiVersion?: string;
+  screenIds: string[];
+}
+
+type Location = Pick<
+  FlowValidationError,
+  "line_start" | "line_end" | "column_start" | "column_end"
+>;
+
+const locationAt = (raw: string, index: number, length: number): Location => {
+  const before = raw.slice(0, Math.max(0, index));
+  const line = before.split("\n").length;
+  const column = index - before.lastIndexOf("\n");
+  return {
+    line_start: line,
+    line_end: line,
+    column_start: column,
+    column_end: column + Math.max(0, length - 1),
+  };
+};
+
+// Points semantic errors at the first match in the raw JSON, or its start
+const locate = (raw: string, pattern: RegExp): Location => {
+  const match = pattern.exec(raw);
+  return match
+    ? locationAt(raw, match.index, match[0].length)
+    : locationAt(raw, 0, 1);
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const keyPattern = (key: string): RegExp =>
+  new RegExp(`"${escapeRegExp(key)}"\\s*:`);
+
+const SCREEN_ID_PATTERN = /^[A-Za-z_]+$/;
+
+// Collects `navigate` actions so their target screens can be checked
+const collectNavigateTargets = (node: unknown, out: string[]): void => {
+  if (Array.isArray(node)) {
+    node.forEach((item) => collectNavigateTargets(item, out));
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  const obj = node as Record<string, unknown>;
+  const next = obj.next as Record<string, unknown> | undefined;
+  if (
+    obj.name === "navigate" &&
+    next &&
+    typeof next === "object" &&
+    typeof next.name === "string"
+  ) {
+    out.push(next.name);
+  }
+  Object.values(obj).forEach((value) => collectNavigateTargets(value, out));
+};
+
+/**
+ * Validates an uploaded flow.json the way the Flows API does on asset upload:
+ * syntax errors, required properties, screen IDs, layouts, terminal screens
+ * and navigation targets.
+ */
+export const validateFlowJson = (raw: string): FlowJsonValidation => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid JSON";
+    const position = /position (\d+)/.exec(message);
+    const lineColumn = /line (\d+) column (\d+)/.exec(message);
+    const location: Location = lineColumn
+      ? {
+          line_start: Number(lineColumn[1]),
+          line_end: Number(lineColumn[1]),
+          column_start: Number(lineColumn[2]),
+          column_end: Number(lineColumn[2]),
+        }
+      : locationAt(raw, position ? Number(position[1]) : 0, 1);
+    return {
+      errors: [
+        {
+          error: "INVALID_JSON",
+          error_type: "JSON_SCHEMA_ERROR",
+          message,
+          ...location,
+        },
+      ],
+      screenIds: [],
+    };
+  }
+
+  const errors: FlowValidationError[] = [];
+  const addError = (
+    error: string,
+    message: string,
+    location: Location,
+    path?: string
+  ) => {
+    errors.push({
+      error,
+      error_type: "FLOW_JSON_ERROR",
+      message,
+      ...location,
+      ...(path ? { pointers: [{ path }] } : {}),
+    });
+  };
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    addError(
+      "INVALID_PROPERTY_VALUE",
+      "Flow JSON must be an object.",
+      locationAt(raw, 0, 1)
+    );
+    return { errors, screenIds: [] };
+  }
+
+  const root = parsed as Record<string, unknown>;
+  const result: FlowJsonValidation = { errors, screenIds: [] };
+
+  if (typeof root.version !== "string" || !root.version) {
+    addError(
+      "MISSING_REQUIRED_PROPERTY",
+      "The property 'version' is required.",
+      locationAt(raw, 0, 1),
+      "version"
+    );
+  } else {
+    result.jsonVersion = root.version;
+  }
+
+  if (typeof root.data_api_version === "string") {
+    result.dataApiVersion = root.data_api_version;
+    if (!root.routing_model || typeof root.routing_model !== "object") {
+      addError(
+        "MISSING_REQUIRED_PROPERTY",
+        "The property 'routing_model' is required when 'data_api_version' is set.",
+        locate(raw, keyPattern("data_api_version")),
+        "routing_model"
+      );
+    }
+  }
+
+  const screens = root.screens;
+  if (!Array.isArray(screens) || screens.length === 0) {
+    addError(
+      "MISSING_REQUIRED_PROPERTY",
+      "The property 'screens' is required and must contain at least one screen.",
+      locate(raw, keyPattern("screens")),
+      "screens"
+    );
+    return result;
+  }
+
+  let hasTerminal = false;
+  screens.forEach((screen: unknown, index: number) => {
+    const path = `screens[${index}]`;
+    if (!screen || typeof screen !== "object") {
+      addError(
+        "INVALID_PROPERTY_VALUE",
+        `${path} must be an object.`,
+        locate(raw, keyPattern("screens")),
+        path
+      );
+      return;
+    }
+
+    const s = screen as Record<string, unknown>;
+    const id = typeof s.id === "string" ? s.id : undefined;
+    const idLocation = id
+      ? locate(raw, new RegExp(`"id"\\s*:\\s*"${escapeRegExp(id)}"`))
+      : locate(raw, keyPattern("screens"));
+
+    if (!id) {
+      addError(
+        "MISSING_REQUIRED_PROPERTY",
+        `The property 'id' is required for ${path}.`,
+        idLocation,
+        `${path}.id`
+      );
+    } else if (id === "SUCCESS" || !SCREEN_ID_PATTERN.test(id)) {
+      addError(
+        "INVALID_PROPERTY_VALUE",
+        `Invalid screen id '${id}'. Screen ids may only contain letters and underscores, and 'SUCCESS' is reserved.`,
+        idLocation,
+        `${path}.id`
+      );
+    } else if (result.screenIds.includes(id)) {
+      addError(
+        "DUPLICATE_SCREEN_ID",
+        `Screen id '${id}' is used more than once.`,
+        idLocation,
+        `${path}.id`
+      );
+    } else {
+      result.screenIds.push(id);
+    }
+
+    const layout = s.layout as Record<string, unknown> | undefined;
+    if (!layout || typeof layout !== "object") {
+      addError(
+        "MISSING_REQUIRED_PROPERTY",
+        `The property 'layout' is required for ${path}.`,
+        idLocation,
+        `${path}.layout`
+      );
+    } else if (
+      layout.type !== "SingleColumnLayout" ||
+      !Array.isArray(layout.children)
+    ) {
+      addError(
+        "INVALID_PROPERTY_VALUE",
+        `${path}.layout must be a SingleColumnLayout with a 'children' array.`,
+        locate(raw, keyPattern("layout")),
+        `${path}.layout`
+      );
+    }
+
+    if (s.terminal === true) hasTerminal = true;
+  });
+
+  if (!hasTerminal) {
+    addError(
+      "MISSING_TERMINAL_SCREEN",
+      "At least one screen must be marked as 'terminal'.",
+      locate(raw, keyPattern("screens")),
+      "screens"
+    );
+  }
+
+  const targets: string[] = [];
+  collectNavigateTargets(screens, targets);
+  for (const target of targets) {
+    if (!result.screenIds.includes(target)) {
+      addError(
+        "INVALID_NAVIGATION_TARGET",
+        `Navigate action points to unknown screen '${target}'.`,
+        locate(raw, new RegExp(`"name"\\s*:\\s*"${escapeRegExp(target)}"`)),
+        "screens"
+      );
+    }
+  }
+
+  return result;
+};
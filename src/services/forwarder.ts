@@ -1,7 +1,7 @@
 import axios from "axios";
 import crypto from "crypto";
 import { getConfig } from "../config";
-import { WabaWebhookPayload } from "../types/waba";
+import { WabaAccountWebhookPayload, WabaWebhookPayload } from "../types/waba";
 
 export interface ForwardResult {
   status: number;
@@ -16,7 +16,7 @@ export class WebhookForwarder {
   ) {}
 
   async forward(
-    payload: WabaWebhookPayload,
+    payload: WabaWebhookPayload | WabaAccountWebhookPayload,
     opts?: { appSecret?: string | undefined }
   ): Promise<ForwardResult> {
     const body = JSON.stringify(payload);
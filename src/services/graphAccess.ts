@@ -0,0 +1,76 @@
+import {
+  GraphAccessToken,
+  GraphPermission,
+} from "../state/accessTokens";
+import { getFlow } from "../state/flows";
+import { getMedia } from "../state/media";
+import { getTemplateById, listTemplates } from "../state/templates";
+import {
+  getPhoneNumber,
+  getWaba,
+  listPhoneNumbers,
+} from "../state/webhookRouting";
+
+export type GraphAsset =
+  | { kind: "phone"; phoneId: string; wabaId?: string }
+  | { kind: "waba"; wabaId: string }
+  | { kind: "unknown" };
+
+/** Works out which phone or WABA a Graph object ID belongs to */
+export const resolveGraphAsset = (id: string): GraphAsset => {
+  const phoneAsset = (phoneId: string): GraphAsset => {
+    const wabaId = getPhoneNumber(phoneId)?.wabaId;
+    return wabaId
+      ? { kind: "phone", phoneId, wabaId }
+      : { kind: "phone", phoneId };
+  };
+
+  if (getPhoneNumber(id)) return phoneAsset(id);
+
+  const media = getMedia(id);
+  if (media) return phoneAsset(media.phoneId);
+
+  const template = getTemplateById(id);
+  if (template?.wabaId) return { kind: "waba", wabaId: template.wabaId };
+
+  const flow = getFlow(id);
+  if (flow) return { kind: "waba", wabaId: flow.wabaId };
+
+  if (
+    getWaba(id) ||
+    listPhoneNumbers().some((p) => p.wabaId === id) ||
+    listTemplates().some((t) => t.wabaId === id)
+  ) {
+    return { kind: "waba", wabaId: id };
+  }
+
+  return { kind: "unknown" };
+};
+
+export type GraphAccessResult =
+  | { ok: true }
+  | { ok: false; reason: "missing_permission" | "asset_not_assigned" };
+
+/**
+ * A token can act on a phone assigned to it directly or through its WABA,
+ * and on WABAs assigned to it. Unknown IDs are let through so the route
+ * answers with its own not-found error.
+ */
+export const checkGraphAccess = (
+  token: GraphAccessToken,
+  params: { id: string; permission: GraphPermission }
+): GraphAccessResult => {
+  if (!token.scopes.includes(params.permission)) {
+    return { ok: false, reason: "missing_permission" };
+  }
+
+  const asset = resolveGraphAsset(params.id);
+  if (asset.kind === "unknown") return { ok: true };
+
+  const assigned =
+    asset.kind === "phone"
+      ? token.phoneIds.includes(asset.phoneId) ||
+        (asset.wabaId !== undefined && token.wabaIds.includes(asset.wabaId))
+      : token.wabaIds.includes(asset.wabaId);
+  return assigned ? { ok: true } : { ok: false, reason: "asset_not_assigned" };
+};
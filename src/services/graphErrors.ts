@@ -0,0 +1,312 @@
+import crypto from "crypto";
+import { Response } from "express";
+
+/**
+ * Sandbox conditions mapped to the Cloud API error codes a real Graph call
+ * would return for them.
+ */
+export type GraphErrorKey =
+  | "invalid_parameter"
+  | "required_parameter"
+  | "object_not_found"
+  | "access_token_required"
+  | "invalid_access_token"
+  | "access_token_expired"
+  | "permission_denied"
+  | "message_param_missing"
+  | "parameter_value_invalid"
+  | "message_undeliverable"
+  | "re_engagement_message"
+  | "spam_rate_limit"
+  | "ecosystem_engagement"
+  | "marketing_opted_out"
+  | "media_upload_error"
+  | "template_param_count_mismatch"
+  | "template_not_found"
+  | "template_param_format_mismatch"
+  | "template_paused"
+  | "template_disabled"
+  | "pin_mismatch"
+  | "account_not_registered"
+  | "registration_rate_limit"
+  | "verification_code_error"
+  | "block_users_failed"
+  | "flow_validation_failed"
+  | "flow_invalid_state"
+  | "flow_not_editable"
+  | "calling_not_enabled"
+  | "duplicate_call";
+
+interface GraphErrorContext {
+  /** Parameter name, for `required_parameter` */
+  param?: string;
+  /** Missing permission, for `permission_denied` */
+  permission?: string;
+  /** Object ID and HTTP method, for `object_not_found` */
+  id?: string;
+  method?: string;
+}
+
+interface GraphErrorDefinition {
+  status: number;
+  code: number;
+  subcode?: number;
+  title: string;
+  message?: (ctx: GraphErrorContext) => string;
+  transient?: boolean;
+}
+
+const GRAPH_ERRORS: Record<GraphErrorKey, GraphErrorDefinition> = {
+  invalid_parameter: { status: 400, code: 100, title: "Invalid parameter" },
+  required_parameter: {
+    status: 400,
+    code: 100,
+    title: "Invalid parameter",
+    message: (ctx) =>
+      `(#100) The parameter ${ctx.param ?? "unknown"} is required`,
+  },
+  object_not_found: {
+    status: 400,
+    code: 100,
+    subcode: 33,
+    title: "Invalid parameter",
+    message: (ctx) =>
+      `Unsupported ${(ctx.method ?? "get").toLowerCase()} request. Object with ID '${
+        ctx.id ?? ""
+      }' does not exist, cannot be loaded due to missing permissions, or does not support this operation. Please read the Graph API documentation at https://developers.facebook.com/docs/graph-api`,
+  },
+  access_token_required: {
+    status: 400,
+    code: 104,
+    title: "An access token is required to request this resource.",
+    message: () => "An access token is required to request this resource.",
+  },
+  invalid_access_token: {
+    status: 401,
+    code: 190,
+    title: "Invalid OAuth access token",
+    message: () => "Invalid OAuth access token - Cannot parse access token",
+  },
+  access_token_expired: {
+    status: 401,
+    code: 190,
+    subcode: 463,
+    title: "Session has expired",
+    message: () => "Error validating access token: Session has expired.",
+  },
+  permission_denied: {
+    status: 403,
+    code: 200,
+    title: "Permissions error",
+    message: (ctx) =>
+      ctx.permission
+        ? `(#200) Requires ${ctx.permission} permission to manage the object`
+        : "(#200) Permissions error",
+  },
+  message_param_missing: {
+    status: 400,
+    code: 131008,
+    title: "Required parameter is missing",
+  },
+  parameter_value_invalid: {
+    status: 400,
+    code: 131009,
+    title: "Parameter value is not valid",
+  },
+  message_undeliverable: {
+    status: 400,
+    code: 131026,
+    title: "Message Undeliverable",
+  },
+  re_engagement_message: {
+    status: 400,
+    code: 131047,
+    title: "Re-engagement message",
+  },
+  spam_rate_limit: {
+    status: 429,
+    code: 131048,
+    subcode: 2494098,
+    title: "Spam rate limit hit",
+    transient: true,
+  },
+  ecosystem_engagement: {
+    status: 429,
+    code: 131049,
+    title:
+      "This message was not delivered to maintain healthy ecosystem engagement.",
+    transient: true,
+  },
+  marketing_opted_out: {
+    status: 400,
+    code: 131050,
+    title:
+      "Unable to deliver the message. This recipient has chosen to stop receiving marketing messages on WhatsApp from your business.",
+  },
+  media_upload_error: {
+    status: 400,
+    code: 131053,
+    subcode: 2494102,
+    title: "Media upload error",
+  },
+  template_param_count_mismatch: {
+    status: 400,
+    code: 132000,
+    title: "Number of parameters does not match the expected number of params",
+  },
+  template_not_found: {
+    status: 400,
+    code: 132001,
+    title: "Template name does not exist in the translation",
+  },
+  template_param_format_mismatch: {
+    status: 400,
+    code: 132012,
+    title: "Parameter format does not match format in the created template",
+  },
+  template_paused: { status: 400, code: 132015, title: "Template is Paused" },
+  template_disabled: {
+    status: 400,
+    code: 132016,
+    title: "Template is Disabled",
+  },
+  pin_mismatch: {
+    status: 400,
+    code: 133005,
+    title: "Two step verification PIN Mismatch",
+  },
+  account_not_registered: {
+    status: 400,
+    code: 133010,
+    title: "Account not registered",
+  },
+  registration_rate_limit: {
+    status: 429,
+    code: 133016,
+    subcode: 133016,
+    title: "Account register deregister rate limit exceeded",
+    transient: true,
+  },
+  verification_code_error: {
+    status: 400,
+    code: 136025,
+    title: "Verification code error",
+  },
+  block_users_failed: {
+    status: 400,
+    code: 139100,
+    title: "Failed to block/unblock users",
+  },
+  flow_validation_failed: {
+    status: 400,
+    code: 139001,
+    title: "Error while saving or publishing Flow",
+  },
+  flow_invalid_state: {
+    status: 400,
+    code: 139002,
+    title: "Flow is in an invalid state for this operation",
+  },
+  flow_not_editable: {
+    status: 400,
+    code: 139004,
+    title: "Flow can't be updated",
+  },
+  calling_not_enabled: {
+    status: 400,
+    code: 138000,
+    title: "Calling not enabled",
+  },
+  duplicate_call: {
+    status: 400,
+    code: 138003,
+    title: "Duplicate call",
+  },
+};
+
+export interface GraphErrorOptions extends GraphErrorContext {
+  /** Replaces the catalog message */
+  message?: string;
+  /** Sent as `error.error_data.details` */
+  details?: string;
+  userTitle?: string;
+  userMessage?: string;
+  /** Sandbox-only diagnostics, returned next to `error` */
+  sandbox?: Record<string, unknown>;
+}
+
+export interface GraphErrorBody {
+  error: {
+    message: string;
+    type: "OAuthException";
+    code: number;
+    error_subcode?: number;
+    error_user_title?: string;
+    error_user_msg?: string;
+    error_data?: { messaging_product: "whatsapp"; details: string };
+    is_transient: boolean;
+    fbtrace_id: string;
+  };
+  sandbox?: Record<string, unknown>;
+}
+
+// Graph attaches an opaque trace ID to every error
+const createTraceId = (): string =>
+  `A${crypto
+    .randomBytes(16)
+    .toString("base64")
+    .replace(/[^A-Za-z0-9]/g, "")
+    .slice(0, 22)}`;
+
+export const buildGraphError = (
+  key: GraphErrorKey,
+  opts: GraphErrorOptions = {}
+): { status: number; body: GraphErrorBody } => {
+  const definition = GRAPH_ERRORS[key];
+  const message =
+    opts.message ??
+    (definition.message
+      ? definition.message(opts)
+      : `(#${definition.code}) ${definition.title}`);
+
+  const body: GraphErrorBody = {
+    error: {
+      message,
+      type: "OAuthException",
+      code: definition.code,
+      ...(definition.subcode !== undefined
+        ? { error_subcode: definition.subcode }
+        : {}),
+      ...(opts.userTitle !== undefined
+        ? { error_user_title: opts.userTitle }
+        : {}),
+      ...(opts.userMessage !== undefined
+        ? { error_user_msg: opts.userMessage }
+        : {}),
+      ...(opts.details !== undefined
+        ? {
+            error_data: {
+              messaging_product: "whatsapp",
+              details: opts.details,
+            },
+          }
+        : {}),
+      is_transient: definition.transient ?? false,
+      fbtrace_id: createTraceId(),
+    },
+  };
+  if (opts.sandbox) {
+    body.sandbox = opts.sandbox;
+  }
+
+  return { status: definition.status, body };
+};
+
+export const sendGraphError = (
+  res: Response,
+  key: GraphErrorKey,
+  opts?: GraphErrorOptions
+): Response => {
+  const { status, body } = buildGraphError(key, opts);
+  return res.status(status).json(body);
+};
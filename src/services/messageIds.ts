@@ -0,0 +1,11 @@
+let sequence = 0;
+
+/**
+ * Sandbox message IDs look like `wamid.SANDBOX-<KIND>-<ms>-<n>`. The counter
+ * keeps messages created in the same millisecond apart, since sends and
+ * status lookups are keyed by message ID.
+ */
+export const createMessageId = (kind: string): string => {
+  sequence += 1;
+  return `wamid.SANDBOX-${kind}-${Date.now()}-${sequence}`;
+};
@@ -0,0 +1,149 @@
+import { forwardAccountUpdate } from "./accountWebhooks";
+import { getPhoneNumber } from "../state/webhookRouting";
+import {
+  countUniqueRecipientsSince,
+  getEffectiveMessagingTier,
+  getLimitingBusiness,
+  getMessagingSummaryForPhone,
+  getTierLimit,
+  MESSAGING_LIMIT_TIERS,
+  MessagingLimitTier,
+  setEffectiveMessagingTier,
+  UPGRADE_WINDOW_MS,
+} from "../state/messagingLimits";
+import { listBusinessPhoneIds } from "../state/businesses";
+import { addEvent } from "../state/eventStore";
+
+export type PhoneQualityEvent =
+  | "FLAGGED"
+  | "UNFLAGGED"
+  | "DOWNGRADE"
+  | "UPGRADE";
+
+/**
+ * Forwards a `phone_number_quality_update` webhook carrying the messaging
+ * limit tier in force for the phone, the business tier in `portfolio` mode.
+ */
+export const emitPhoneQualityUpdate = (
+  phoneId: string,
+  event: PhoneQualityEvent
+): void => {
+  const phone = getPhoneNumber(phoneId);
+  void forwardAccountUpdate({
+    wabaId: phone?.wabaId,
+    phoneNumberId: phoneId,
+    change: {
+      field: "phone_number_quality_update",
+      value: {
+        display_phone_number: phone?.displayPhoneNumber ?? phoneId,
+        event,
+        current_limit: getEffectiveMessagingTier(phoneId),
+      },
+    },
+    source: "messaging-tier",
+  });
+};
+
+/**
+ * Sets the tier in force for a phone and emits UPGRADE or DOWNGRADE when it
+ * moved. In `portfolio` mode the business tier changes, so every number of
+ * the portfolio gets the update. Returns the event that was emitted, if any.
+ */
+export const changeMessagingTier = (
+  phoneId: string,
+  tier: MessagingLimitTier
+): PhoneQualityEvent | undefined => {
+  const current = getEffectiveMessagingTier(phoneId);
+  if (current === tier) return undefined;
+
+  const event: PhoneQualityEvent =
+    MESSAGING_LIMIT_TIERS.indexOf(tier) > MESSAGING_LIMIT_TIERS.indexOf(current)
+      ? "UPGRADE"
+      : "DOWNGRADE";
+  const business = getLimitingBusiness(phoneId);
+  setEffectiveMessagingTier(phoneId, tier);
+  for (const id of business ? listBusinessPhoneIds(business) : [phoneId]) {
+    emitPhoneQualityUpdate(id, event);
+  }
+  return event;
+};
+
+export const stepMessagingTierDown = (
+  phoneId: string
+): PhoneQualityEvent | undefined => {
+  const index = MESSAGING_LIMIT_TIERS.indexOf(
+    getEffectiveMessagingTier(phoneId)
+  );
+  const lower = MESSAGING_LIMIT_TIERS[index - 1];
+  return lower ? changeMessagingTier(phoneId, lower) : undefined;
+};
+
+export interface TierUpgradeEvaluation {
+  phoneId: string;
+  tier: MessagingLimitTier;
+  eligible: boolean;
+  upgraded: boolean;
+  reason?: string;
+  uniqueRecipients: number;
+  requiredUniqueRecipients: number;
+}
+
+/**
+ * Meta's upgrade rule: a phone whose quality isn't RED and that reached at
+ * least half of its current limit in unique recipients over the last 7 days
+ * moves up one tier. In `portfolio` mode recipients of every number count
+ * and the business tier moves.
+ */
+export const evaluateTierUpgrade = (
+  phoneId: string,
+  opts?: { apply?: boolean }
+): TierUpgradeEvaluation => {
+  const tier = getEffectiveMessagingTier(phoneId);
+  const limit = getTierLimit(tier);
+  const required = Number.isFinite(limit) ? Math.ceil(limit / 2) : 0;
+  const uniqueRecipients = countUniqueRecipientsSince(
+    phoneId,
+    Date.now() - UPGRADE_WINDOW_MS
+  );
+  const base = {
+    phoneId,
+    tier,
+    uniqueRecipients,
+    requiredUniqueRecipients: required,
+  };
+
+  const next = MESSAGING_LIMIT_TIERS[MESSAGING_LIMIT_TIERS.indexOf(tier) + 1];
+  if (!next) {
+    return { ...base, eligible: false, upgraded: false, reason: "highest_tier" };
+  }
+  if (getPhoneNumber(phoneId)?.qualityRating === "RED") {
+    return { ...base, eligible: false, upgraded: false, reason: "quality_red" };
+  }
+  if (uniqueRecipients < required) {
+    return {
+      ...base,
+      eligible: false,
+      upgraded: false,
+      reason: "not_enough_unique_recipients",
+    };
+  }
+  if (opts?.apply === false) {
+    return { ...base, eligible: true, upgraded: false };
+  }
+
+  changeMessagingTier(phoneId, next);
+  addEvent({
+    direction: "system",
+    type: "simulate.account_update",
+    source: "messaging-tier",
+    payload: { phoneId, from: tier, to: next },
+    meta: { uniqueRecipients, requiredUniqueRecipients: required },
+  });
+  return { ...base, tier: next, eligible: true, upgraded: true };
+};
+
+/** Runs the upgrade evaluator after a send when auto-upgrade is enabled */
+export const maybeAutoUpgradeTier = (phoneId: string): void => {
+  if (!getMessagingSummaryForPhone(phoneId).autoUpgrade) return;
+  evaluateTierUpgrade(phoneId);
+};
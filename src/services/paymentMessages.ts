@@ -0,0 +1,262 @@
+import { GraphErrorKey } from "./graphErrors";
+import { getProduct } from "../state/commerce";
+import {
+  canTransitionOrder,
+  getOrder,
+  isOrderOpen,
+  isOrderStatus,
+  OrderStatus,
+  PaymentAmount,
+  PaymentOrder,
+} from "../state/payments";
+
+// Currencies supported by WhatsApp Payments (Brazil, India, Singapore)
+const PAYMENT_CURRENCIES = ["BRL", "INR", "SGD"];
+const REFERENCE_ID_PATTERN = /^[A-Za-z0-9_\-.]{1,35}$/;
+
+type Failure = { ok: false; key: GraphErrorKey; details: string };
+
+export type OrderDetailsValidation =
+  | {
+      ok: true;
+      referenceId: string;
+      currency: string;
+      totalAmount: PaymentAmount;
+      paymentMethod?: string;
+    }
+  | Failure;
+
+export type OrderStatusValidation =
+  | { ok: true; order: PaymentOrder; status: OrderStatus }
+  | Failure;
+
+const missing = (details: string): Failure => ({
+  ok: false,
+  key: "message_param_missing",
+  details,
+});
+
+const invalid = (details: string): Failure => ({
+  ok: false,
+  key: "parameter_value_invalid",
+  details,
+});
+
+const isAmount = (value: unknown): value is PaymentAmount =>
+  !!value &&
+  typeof value === "object" &&
+  Number.isInteger((value as PaymentAmount).value) &&
+  (value as PaymentAmount).value >= 0 &&
+  Number.isInteger((value as PaymentAmount).offset) &&
+  (value as PaymentAmount).offset > 0;
+
+/**
+ * Validates `interactive.type = order_details` sends: reference ID, goods
+ * type, currency, payment settings, and that item amounts, subtotal, tax,
+ * shipping and discount add up to `total_amount`.
+ */
+export const validateOrderDetailsMessage = (
+  phoneId: string,
+  interactive: Record<string, any>
+): OrderDetailsValidation => {
+  const action = interactive.action;
+  if (action?.name !== "review_and_pay") {
+    return invalid(
+      'order_details messages need action.name "review_and_pay"'
+    );
+  }
+  if (!interactive.body?.text) {
+    return missing("order_details messages need a body");
+  }
+
+  const params = action.parameters;
+  if (!params || typeof params !== "object") {
+    return missing("action.parameters is required");
+  }
+
+  const referenceId = params.reference_id;
+  if (typeof referenceId !== "string" || !referenceId) {
+    return missing("parameters.reference_id is required");
+  }
+  if (!REFERENCE_ID_PATTERN.test(referenceId)) {
+    return invalid(
+      "reference_id must be 1-35 letters, digits, '_', '-' or '.' characters"
+    );
+  }
+  const existing = getOrder(phoneId, referenceId);
+  if (existing && isOrderOpen(existing)) {
+    return invalid(
+      `reference_id ${referenceId} is already used by an open order (${existing.status})`
+    );
+  }
+
+  if (params.type !== "digital-goods" && params.type !== "physical-goods") {
+    return invalid(
+      'parameters.type must be "digital-goods" or "physical-goods"'
+    );
+  }
+
+  const currency = params.currency;
+  if (typeof currency !== "string" || !PAYMENT_CURRENCIES.includes(currency)) {
+    return invalid(
+      `parameters.currency must be one of ${PAYMENT_CURRENCIES.join(", ")}`
+    );
+  }
+
+  // payment_settings (current) or payment_type + payment_configuration (legacy)
+  let paymentMethod: string | undefined;
+  if (params.payment_settings !== undefined) {
+    const settings = params.payment_settings;
+    if (!Array.isArray(settings) || settings.length === 0) {
+      return invalid("parameters.payment_settings must be a non-empty array");
+    }
+    for (const setting of settings) {
+      const type = setting?.type;
+      if (typeof type !== "string" || !setting[type]) {
+        return invalid(
+          "Each payment_settings entry needs a type and a matching object, e.g. { type: \"pix_dynamic_code\", pix_dynamic_code: {...} }"
+        );
+      }
+    }
+    paymentMethod = settings[0].type;
+  } else if (params.payment_type || params.payment_configuration) {
+    if (!params.payment_type || !params.payment_configuration) {
+      return missing(
+        "payment_type and payment_configuration must be sent together"
+      );
+    }
+    paymentMethod = String(params.payment_type);
+  } else {
+    return missing("parameters.payment_settings is required");
+  }
+
+  const total = params.total_amount;
+  if (!isAmount(total)) {
+    return missing("parameters.total_amount { value, offset } is required");
+  }
+
+  const order = params.order;
+  if (!order || typeof order !== "object") {
+    return missing("parameters.order is required");
+  }
+  if (order.status !== "pending") {
+    return invalid(
+      'order.status must be "pending" in order_details messages'
+    );
+  }
+
+  // Every amount must use the same offset so they can be added as integers
+  const sameOffset = (amount: PaymentAmount) => amount.offset === total.offset;
+
+  const items = order.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return missing("order.items is required");
+  }
+  let itemsTotal = 0;
+  for (const [index, item] of items.entries()) {
+    if (!item?.retailer_id || !item?.name) {
+      return missing(`order.items[${index}] needs retailer_id and name`);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return invalid(
+        `order.items[${index}].quantity must be a positive integer`
+      );
+    }
+    const price = item.sale_amount ?? item.amount;
+    if (!isAmount(price) || !sameOffset(price)) {
+      return invalid(
+        `order.items[${index}].amount must be { value, offset } with offset ${total.offset}`
+      );
+    }
+    if (
+      order.catalog_id &&
+      !getProduct(String(order.catalog_id), String(item.retailer_id))
+    ) {
+      return invalid(
+        `Product ${item.retailer_id} not found in catalog ${order.catalog_id}`
+      );
+    }
+    itemsTotal += price.value * item.quantity;
+  }
+
+  const amountOf = (name: string, required: boolean): number | Failure => {
+    const amount = order[name];
+    if (amount === undefined) {
+      return required ? missing(`order.${name} is required`) : 0;
+    }
+    if (!isAmount(amount) || !sameOffset(amount)) {
+      return invalid(
+        `order.${name} must be { value, offset } with offset ${total.offset}`
+      );
+    }
+    return amount.value;
+  };
+
+  const subtotal = amountOf("subtotal", true);
+  const tax = amountOf("tax", true);
+  const shipping = amountOf("shipping", false);
+  const discount = amountOf("discount", false);
+  for (const part of [subtotal, tax, shipping, discount]) {
+    if (typeof part !== "number") return part;
+  }
+
+  if (subtotal !== itemsTotal) {
+    return invalid(
+      `order.subtotal (${subtotal}) must equal the sum of item amounts times quantities (${itemsTotal})`
+    );
+  }
+  const expectedTotal =
+    (subtotal as number) +
+    (tax as number) +
+    (shipping as number) -
+    (discount as number);
+  if (total.value !== expectedTotal) {
+    return invalid(
+      `total_amount (${total.value}) must equal subtotal + tax + shipping - discount (${expectedTotal})`
+    );
+  }
+
+  return {
+    ok: true,
+    referenceId,
+    currency,
+    totalAmount: { value: total.value, offset: total.offset },
+    ...(paymentMethod ? { paymentMethod } : {}),
+  };
+};
+
+/** Validates `interactive.type = order_status` as a transition of a known order */
+export const validateOrderStatusMessage = (
+  phoneId: string,
+  interactive: Record<string, any>
+): OrderStatusValidation => {
+  const action = interactive.action;
+  if (action?.name !== "review_order") {
+    return invalid('order_status messages need action.name "review_order"');
+  }
+
+  const referenceId = action.parameters?.reference_id;
+  if (typeof referenceId !== "string" || !referenceId) {
+    return missing("parameters.reference_id is required");
+  }
+  const order = getOrder(phoneId, referenceId);
+  if (!order) {
+    return invalid(
+      `No order_details message was sent with reference_id ${referenceId}`
+    );
+  }
+
+  const status = action.parameters?.order?.status;
+  if (!isOrderStatus(status)) {
+    return invalid(
+      "parameters.order.status must be processing, partially-shipped, shipped, completed or canceled"
+    );
+  }
+  if (!canTransitionOrder(order.status, status)) {
+    return invalid(
+      `Order ${referenceId} can't move from ${order.status} to ${status}`
+    );
+  }
+
+  return { ok: true, order, status };
+};
@@ -0,0 +1,87 @@
+import {
+  emitPhoneQualityUpdate,
+  stepMessagingTierDown,
+} from "./messagingTiers";
+import {
+  getPhoneNumber,
+  PhoneQualityRating,
+  setPhoneQualityRating,
+} from "../state/webhookRouting";
+import {
+  getPhoneQualityConfig,
+  getPhoneQualityStats,
+  PhoneQualitySignalType,
+  PhoneQualityStats,
+  recordPhoneQualitySignal,
+} from "../state/phoneQuality";
+import { isStatusLifecycleEnabled } from "../state/statusLifecycle";
+
+/** Rates a phone from its signals, or undefined when there is no data yet */
+export const computePhoneQualityRating = (
+  phoneId: string,
+  stats: PhoneQualityStats = getPhoneQualityStats(phoneId)
+): PhoneQualityRating | undefined => {
+  if (stats.sends === 0 && stats.blocks === 0 && stats.reports === 0) {
+    return undefined;
+  }
+
+  const config = getPhoneQualityConfig(phoneId);
+  if (stats.negativeRate >= config.redNegativeRate) return "RED";
+
+  // Without the status lifecycle no reads are recorded, so a read rate of 0
+  // only means something once reads have been seen
+  const readsTracked = isStatusLifecycleEnabled(phoneId) || stats.reads > 0;
+  const lowReads =
+    readsTracked &&
+    stats.readRate !== null &&
+    stats.sends >= config.minSendsForReadRate &&
+    stats.readRate < config.lowReadRate;
+  if (stats.negativeRate >= config.yellowNegativeRate || lowReads) {
+    return "YELLOW";
+  }
+  return "GREEN";
+};
+
+const isFlagged = (rating: PhoneQualityRating | undefined): boolean =>
+  rating === "YELLOW" || rating === "RED";
+
+/**
+ * Recomputes the quality rating and emits FLAGGED / UNFLAGGED, plus a
+ * DOWNGRADE of the messaging limit tier when the rating turns RED.
+ */
+export const refreshPhoneQuality = (
+  phoneId: string
+): { rating: PhoneQualityRating | undefined; stats: PhoneQualityStats } => {
+  const stats = getPhoneQualityStats(phoneId);
+  const phone = getPhoneNumber(phoneId);
+  const rating = computePhoneQualityRating(phoneId, stats);
+  if (!phone || rating === undefined) {
+    return { rating: phone?.qualityRating, stats };
+  }
+
+  const previous = phone.qualityRating;
+  if (rating === previous) return { rating, stats };
+
+  setPhoneQualityRating(phoneId, rating);
+
+  if (!isFlagged(previous) && isFlagged(rating)) {
+    emitPhoneQualityUpdate(phoneId, "FLAGGED");
+  } else if (isFlagged(previous) && !isFlagged(rating)) {
+    emitPhoneQualityUpdate(phoneId, "UNFLAGGED");
+  }
+
+  if (rating === "RED" && getPhoneQualityConfig(phoneId).downgradeOnRed) {
+    stepMessagingTierDown(phoneId);
+  }
+
+  return { rating, stats };
+};
+
+export const recordPhoneSignal = (
+  phoneId: string,
+  type: PhoneQualitySignalType,
+  count = 1
+): { rating: PhoneQualityRating | undefined; stats: PhoneQualityStats } => {
+  recordPhoneQualitySignal({ phoneId, type, count });
+  return refreshPhoneQuality(phoneId);
+};
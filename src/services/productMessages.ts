@@ -0,0 +1,196 @@
+import { GraphErrorKey } from "./graphErrors";
+import {
+  CatalogProduct,
+  getCatalog,
+  getProduct,
+  isProductSendable,
+} from "../state/commerce";
+import { getPhoneNumber } from "../state/webhookRouting";
+
+// Cloud API limits for multi-product messages
+const MAX_SECTIONS = 10;
+const MAX_PRODUCTS = 30;
+
+export type ProductMessageValidation =
+  | {
+      ok: true;
+      catalogId: string;
+      products: CatalogProduct[];
+      /** Products left out of the message because they can't be ordered */
+      unavailable: string[];
+    }
+  | {
+      ok: false;
+      key: GraphErrorKey;
+      details: string;
+      param?: string;
+    };
+
+const fail = (
+  key: GraphErrorKey,
+  details: string,
+  param?: string
+): ProductMessageValidation => ({
+  ok: false,
+  key,
+  details,
+  ...(param ? { param } : {}),
+});
+
+/**
+ * Validates outbound `product` / `product_list` interactive messages against
+ * the local catalog connected to the sender's WABA.
+ */
+export const validateProductMessage = (
+  phoneId: string,
+  interactive: Record<string, any>
+): ProductMessageValidation => {
+  const action = interactive.action;
+  if (!action || typeof action !== "object") {
+    return fail(
+      "message_param_missing",
+      "interactive.action is required",
+      "action"
+    );
+  }
+
+  const catalogId =
+    action.catalog_id !== undefined ? String(action.catalog_id) : "";
+  if (!catalogId) {
+    return fail(
+      "message_param_missing",
+      "action.catalog_id is required",
+      "catalog_id"
+    );
+  }
+
+  const catalog = getCatalog(catalogId);
+  if (!catalog) {
+    return fail("parameter_value_invalid", `Catalog ${catalogId} not found`);
+  }
+  const wabaId = getPhoneNumber(phoneId)?.wabaId;
+  if (wabaId && catalog.wabaId !== wabaId) {
+    return fail(
+      "parameter_value_invalid",
+      `Catalog ${catalogId} is not connected to WhatsApp Business Account ${wabaId}`
+    );
+  }
+
+  const lookup = (retailerId: string): CatalogProduct | undefined =>
+    getProduct(catalogId, retailerId);
+
+  if (interactive.type === "product") {
+    const retailerId =
+      action.product_retailer_id !== undefined
+        ? String(action.product_retailer_id)
+        : "";
+    if (!retailerId) {
+      return fail(
+        "message_param_missing",
+        "action.product_retailer_id is required",
+        "product_retailer_id"
+      );
+    }
+    const product = lookup(retailerId);
+    if (!product) {
+      return fail(
+        "parameter_value_invalid",
+        `Product with retailer ID ${retailerId} not found in catalog ${catalogId}`
+      );
+    }
+    if (!isProductSendable(product)) {
+      return fail(
+        "parameter_value_invalid",
+        `Product ${retailerId} is ${product.availability} and can't be sent`
+      );
+    }
+    return { ok: true, catalogId, products: [product], unavailable: [] };
+  }
+
+  // product_list: header and body are mandatory
+  if (interactive.header?.type !== "text" || !interactive.header?.text) {
+    return fail(
+      "message_param_missing",
+      "product_list messages need a text header",
+      "header"
+    );
+  }
+  if (!interactive.body?.text) {
+    return fail(
+      "message_param_missing",
+      "product_list messages need a body",
+      "body"
+    );
+  }
+
+  const sections = action.sections;
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return fail(
+      "message_param_missing",
+      "action.sections is required",
+      "sections"
+    );
+  }
+  if (sections.length > MAX_SECTIONS) {
+    return fail(
+      "parameter_value_invalid",
+      `product_list messages support at most ${MAX_SECTIONS} sections`
+    );
+  }
+
+  const found: CatalogProduct[] = [];
+  const unavailable: string[] = [];
+  let total = 0;
+  for (const [index, section] of sections.entries()) {
+    if (sections.length > 1 && !section?.title) {
+      return fail(
+        "message_param_missing",
+        `sections[${index}].title is required when there are multiple sections`,
+        "title"
+      );
+    }
+    const items = section?.product_items;
+    if (!Array.isArray(items) || items.length === 0) {
+      return fail(
+        "message_param_missing",
+        `sections[${index}].product_items is required`,
+        "product_items"
+      );
+    }
+    total += items.length;
+
+    for (const item of items) {
+      const retailerId =
+        item?.product_retailer_id !== undefined
+          ? String(item.product_retailer_id)
+          : "";
+      const product = retailerId ? lookup(retailerId) : undefined;
+      if (!product) {
+        return fail(
+          "parameter_value_invalid",
+          `Product with retailer ID ${retailerId || "(missing)"} not found in catalog ${catalogId}`
+        );
+      }
+      if (isProductSendable(product)) {
+        found.push(product);
+      } else {
+        unavailable.push(retailerId);
+      }
+    }
+  }
+
+  if (total > MAX_PRODUCTS) {
+    return fail(
+      "parameter_value_invalid",
+      `product_list messages support at most ${MAX_PRODUCTS} products`
+    );
+  }
+  if (found.length === 0) {
+    return fail(
+      "parameter_value_invalid",
+      "None of the products in the message are available"
+    );
+  }
+
+  return { ok: true, catalogId, products: found, unavailable };
+};
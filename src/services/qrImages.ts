@@ -0,0 +1,23 @@
+import QRCode from "qrcode";
+import { QrImageFormat } from "../state/qrCodes";
+
+const QR_OPTIONS = { errorCorrectionLevel: "M" as const, margin: 2 };
+
+/** Renders the QR image for a deep link locally, in place of Meta's CDN */
+export const renderQrImage = async (
+  text: string,
+  format: QrImageFormat
+): Promise<{ contentType: string; body: Buffer | string }> =>
+  format === "SVG"
+    ? {
+        contentType: "image/svg+xml",
+        body: await QRCode.toString(text, { ...QR_OPTIONS, type: "svg" }),
+      }
+    : {
+        contentType: "image/png",
+        body: await QRCode.toBuffer(text, {
+          ...QR_OPTIONS,
+          type: "png",
+          width: 512,
+        }),
+      };
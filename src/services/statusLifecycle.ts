@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import { WebhookForwarder } from "./forwarder";
+import { recordPhoneSignal } from "./phoneQuality";
+import {
+  WabaStatus,
+  WabaStatusConversation,
+  WabaStatusPricing,
+  WabaWebhookPayload,
+} from "../types/waba";
+import { getSendEventByMessageId } from "../state/messagingLimits";
+import { addEvent } from "../state/eventStore";
+import {
+  getPhoneNumber,
+  resolveWebhookTarget,
+} from "../state/webhookRouting";
+import {
+  getStatusLifecycleConfig,
+  StatusLifecycleConfig,
+} from "../state/statusLifecycle";
+
+type LifecycleStatus = "sent" | "delivered" | "read" | "failed";
+
+const CONVERSATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Looks up the pricing recorded for an outbound message and returns the
+ * `conversation` and `pricing` objects for its status webhooks.
+ */
+export const buildStatusBillingFields = (
+  messageId: string,
+  status: WabaStatus["status"]
+): { conversation?: WabaStatusConversation; pricing?: WabaStatusPricing } => {
+  const send = getSendEventByMessageId(messageId);
+  if (!send || status === "typing") return {};
+
+  const originType =
+    send.pricing.type === "free_entry_point"
+      ? "referral_conversion"
+      : send.pricing.category;
+
+  const conversation: WabaStatusConversation = {
+    id: crypto.createHash("md5").update(messageId).digest("hex"),
+    origin: { type: originType },
+  };
+  if (status === "sent") {
+    conversation.expiration_timestamp = Math.floor(
+      (send.timestamp + CONVERSATION_WINDOW_MS) / 1000
+    ).toString();
+  }
+
+  return {
+    conversation,
+    pricing: { ...send.pricing },
+  };
+};
+
+const buildStatusPayload = (params: {
+  phoneId: string;
+  status: WabaStatus;
+}): WabaWebhookPayload => {
+  const phone = getPhoneNumber(params.phoneId);
+  return {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: phone?.wabaId ?? "sandbox-whatsapp-business-account",
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: {
+                display_phone_number: phone?.displayPhoneNumber || "0000000000",
+                phone_number_id: params.phoneId,
+              },
+              statuses: [params.status],
+            },
+          },
+        ],
+      },
+    ],
+  };
+};
+
+const forwardStatus = async (params: {
+  phoneId: string;
+  messageId: string;
+  recipientId: string;
+  status: LifecycleStatus;
+  config: StatusLifecycleConfig;
+}): Promise<void> => {
+  const status: WabaStatus = {
+    id: params.messageId,
+    status: params.status,
+    timestamp: Math.floor(Date.now() / 1000).toString(),
+    recipient_id: params.recipientId,
+  };
+  if (params.status !== "failed") {
+    Object.assign(
+      status,
+      buildStatusBillingFields(params.messageId, params.status)
+    );
+  } else {
+    status.errors = [
+      {
+        code: params.config.failure.code,
+        title: params.config.failure.title,
+        message: params.config.failure.message,
+        error_data: { details: params.config.failure.details },
+      },
+    ];
+  }
+
+  if (params.status === "read") {
+    recordPhoneSignal(params.phoneId, "read");
+  }
+
+  const payload = buildStatusPayload({ phoneId: params.phoneId, status });
+  const target = resolveWebhookTarget({ phoneNumberId: params.phoneId });
+  if (!target) {
+    addEvent({
+      direction: "system",
+      type: "simulate.status",
+      source: "status-lifecycle",
+      payload,
+      meta: { skipped: "no_webhook_target_configured" },
+    });
+    return;
+  }
+
+  try {
+    const forwarder = new WebhookForwarder(target.url);
+    const result = await forwarder.forward(payload, {
+      appSecret: target.appSecret,
+    });
+    addEvent({
+      direction: "outbound",
+      type: "simulate.status",
+      source: "status-lifecycle",
+      payload,
+      meta: {
+        targetUrl: target.url,
+        forwardStatus: result.status,
+        resolvedSource: target.source,
+      },
+    });
+  } catch (err) {
+    addEvent({
+      direction: "outbound",
+      type: "simulate.status",
+      source: "status-lifecycle",
+      payload,
+      meta: {
+        targetUrl: target.url,
+        error: err instanceof Error ? err.message : String(err),
+        resolvedSource: target.source,
+      },
+    });
+  }
+};
+
+/**
+ * Schedules the automatic status webhooks for a message sent through
+ * POST /<PHONE_ID>/messages: sent → delivered → read, or sent → failed.
+ */
+export const scheduleStatusLifecycle = (params: {
+  phoneId: string;
+  messageId: string;
+  recipientId: string;
+}): void => {
+  const config = getStatusLifecycleConfig(params.phoneId);
+  if (!config.enabled) return;
+
+  const steps: Array<{ status: LifecycleStatus; delayMs: number }> = [
+    { status: "sent", delayMs: config.sentDelayMs },
+  ];
+  if (config.outcome === "failed") {
+    steps.push({ status: "failed", delayMs: config.deliveredDelayMs });
+  } else {
+    steps.push({ status: "delivered", delayMs: config.deliveredDelayMs });
+    if (config.outcome === "read") {
+      steps.push({ status: "read", delayMs: config.readDelayMs });
+    }
+  }
+
+  // Statuses are forwarded in order, each one waiting for the previous
+  const run = async (): Promise<void> => {
+    for (const step of steps) {
+      await new Promise((resolve) => setTimeout(resolve, step.delayMs));
+      await forwardStatus({ ...params, status: step.status, config });
+    }
+  };
+
+  void run();
+};
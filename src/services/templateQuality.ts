@@ -0,0 +1,105 @@
+import {
+  getTemplateById,
+  MessageTemplate,
+  TemplateQualityScore,
+  updateTemplate,
+  updateTemplateQuality,
+} from "../state/templates";
+import {
+  getTemplateFeedback,
+  getTemplateQualityConfig,
+  recordTemplateFeedback,
+  recordTemplateSend,
+  resetTemplateFeedbackSample,
+  TemplateFeedbackRecord,
+  TemplateFeedbackType,
+} from "../state/templateQuality";
+
+export const computeQualityScore = (
+  record: TemplateFeedbackRecord
+): TemplateQualityScore => {
+  const negative = record.blocks + record.reports;
+  if (record.sends === 0 && negative === 0) return "UNKNOWN";
+
+  const config = getTemplateQualityConfig();
+  const rate = negative / Math.max(record.sends, 1);
+  if (rate >= config.redRate) return "RED";
+  if (rate >= config.yellowRate) return "YELLOW";
+  return "GREEN";
+};
+
+const schedulePauseEnd = (templateId: string, durationMs: number): void => {
+  setTimeout(() => {
+    const template = getTemplateById(templateId);
+    if (!template || template.status !== "PAUSED") return;
+    resetTemplateFeedbackSample(templateId);
+    updateTemplate(templateId, {
+      status: "APPROVED",
+      statusNote: "Pause ended, template can be sent again.",
+    });
+  }, durationMs);
+};
+
+/**
+ * Pauses an APPROVED template whose quality dropped to RED: the first two
+ * times for the configured durations, the third time it is disabled.
+ */
+const applyLowQualityPause = (
+  template: MessageTemplate,
+  record: TemplateFeedbackRecord
+): void => {
+  const config = getTemplateQualityConfig();
+  if (!config.autoPause || template.status !== "APPROVED") return;
+
+  const durations: number[] = config.pauseDurationsMs;
+  const durationMs = durations[record.pauseCount];
+  if (durationMs === undefined) {
+    updateTemplate(template.id, {
+      status: "DISABLED",
+      statusNote: "Disabled after repeated low quality ratings.",
+    });
+    return;
+  }
+
+  record.pauseCount += 1;
+  record.pausedUntil = Date.now() + durationMs;
+  updateTemplate(template.id, {
+    status: "PAUSED",
+    statusNote: `Paused for ${Math.round(
+      durationMs / 60000
+    )} minutes due to low quality (pause #${record.pauseCount}).`,
+  });
+  schedulePauseEnd(template.id, durationMs);
+};
+
+const refreshQuality = (
+  templateId: string
+): { template: MessageTemplate; feedback: TemplateFeedbackRecord } | undefined => {
+  const template = getTemplateById(templateId);
+  if (!template) return undefined;
+
+  const feedback = getTemplateFeedback(templateId);
+  const score = computeQualityScore(feedback);
+  updateTemplateQuality(templateId, score);
+  if (score === "RED") {
+    applyLowQualityPause(template, feedback);
+  }
+
+  return { template, feedback };
+};
+
+export const trackTemplateSend = (templateId: string): void => {
+  recordTemplateSend(templateId);
+  refreshQuality(templateId);
+};
+
+/** Applies simulated recipient blocks/reports and re-rates the template */
+export const applyTemplateFeedback = (
+  templateId: string,
+  type: TemplateFeedbackType,
+  count = 1
+): { template: MessageTemplate; feedback: TemplateFeedbackRecord } | undefined => {
+  if (!getTemplateById(templateId)) return undefined;
+  recordTemplateFeedback(templateId, type, count);
+  return refreshQuality(templateId);
+};
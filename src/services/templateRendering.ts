@@ -0,0 +1,374 @@
+import {
+  MessageTemplate,
+  TemplateButton,
+  TemplateComponent,
+} from "../state/templates";
+
+export type TemplateParameterErrorCode = 132000 | 132012;
+
+export interface TemplateParameterError {
+  code: TemplateParameterErrorCode;
+  message: string;
+  details: string;
+}
+
+export interface RenderedTemplateButton {
+  index: number;
+  type: TemplateButton["type"];
+  text: string;
+  url?: string;
+  payload?: string;
+  coupon_code?: string;
+}
+
+export interface RenderedTemplate {
+  template_id: string;
+  name: string;
+  language: string;
+  header?: string;
+  header_media?: { type: string; link?: string; id?: string };
+  body: string;
+  footer?: string;
+  buttons: RenderedTemplateButton[];
+  /** Header, body and footer joined the way the customer would read them */
+  text: string;
+}
+
+export type TemplateRenderResult =
+  | { ok: true; rendered: RenderedTemplate }
+  | { ok: false; error: TemplateParameterError };
+
+type SendParameter = Record<string, unknown>;
+
+interface SendComponent {
+  type: string;
+  subType?: string;
+  index?: number;
+  parameters: SendParameter[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const MEDIA_HEADER_FORMATS = ["IMAGE", "VIDEO", "DOCUMENT"];
+
+const countMismatch = (
+  section: string,
+  received: number,
+  expected: number
+): TemplateParameterError => ({
+  code: 132000,
+  message:
+    "(#132000) Number of parameters does not match the expected number of params",
+  details: `${section}: number of localizable_params (${received}) does not match the expected number of params (${expected})`,
+});
+
+const formatMismatch = (details: string): TemplateParameterError => ({
+  code: 132012,
+  message:
+    "(#132012) Parameter format does not match format in the created template",
+  details,
+});
+
+// Unique placeholder names in order of first appearance ("1", "2" or "first_name")
+export const extractPlaceholders = (text: string | undefined): string[] => {
+  if (!text) return [];
+  const names: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+};
+
+const fillPlaceholders = (
+  text: string,
+  values: Map<string, string>
+): string =>
+  text.replace(PLACEHOLDER_PATTERN, (raw, name: string) =>
+    values.get(name) ?? raw
+  );
+
+const normalizeSendComponents = (components: unknown): SendComponent[] => {
+  if (!Array.isArray(components)) return [];
+  const result: SendComponent[] = [];
+  for (const raw of components) {
+    if (!raw || typeof raw !== "object") continue;
+    const c = raw as Record<string, unknown>;
+    if (typeof c.type !== "string") continue;
+
+    const component: SendComponent = {
+      type: c.type.toLowerCase(),
+      parameters: Array.isArray(c.parameters)
+        ? c.parameters.filter(
+            (p): p is SendParameter => !!p && typeof p === "object"
+          )
+        : [],
+    };
+    if (typeof c.sub_type === "string") {
+      component.subType = c.sub_type.toLowerCase();
+    }
+    const index =
+      typeof c.index === "number" ? c.index : Number.parseInt(String(c.index));
+    if (Number.isInteger(index)) {
+      component.index = index;
+    }
+    result.push(component);
+  }
+  return result;
+};
+
+// Text value carried by a text/currency/date_time parameter
+const readTextValue = (param: SendParameter): string | undefined => {
+  const type = typeof param.type === "string" ? param.type.toLowerCase() : "";
+  if (type === "text" && typeof param.text === "string") {
+    return param.text;
+  }
+  if (type === "currency" || type === "date_time") {
+    const value = param[type];
+    if (value && typeof value === "object") {
+      const fallback = (value as Record<string, unknown>).fallback_value;
+      if (typeof fallback === "string") return fallback;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Matches send-time parameters to the placeholders of one text section.
+ * Positional templates consume parameters in order, named templates match
+ * on `parameter_name`.
+ */
+const resolveTextParameters = (
+  section: string,
+  placeholders: string[],
+  params: SendParameter[]
+): Map<string, string> | TemplateParameterError => {
+  if (params.length !== placeholders.length) {
+    return countMismatch(section, params.length, placeholders.length);
+  }
+
+  const named = placeholders.some((name) => !/^\d+$/.test(name));
+  const values = new Map<string, string>();
+
+  for (const [i, param] of params.entries()) {
+    const value = readTextValue(param);
+    if (value === undefined) {
+      return formatMismatch(
+        `${section}: parameter ${i + 1} must be of type text, currency or date_time with a value`
+      );
+    }
+
+    if (named) {
+      const name = param.parameter_name;
+      if (typeof name !== "string" || !placeholders.includes(name)) {
+        return formatMismatch(
+          `${section}: parameter_name ${JSON.stringify(
+            name ?? null
+          )} does not match any named parameter in the template`
+        );
+      }
+      values.set(name, value);
+    } else {
+      const name = placeholders[i];
+      if (name !== undefined) values.set(name, value);
+    }
+  }
+
+  return values;
+};
+
+const isError = (value: unknown): value is TemplateParameterError =>
+  !!value &&
+  typeof value === "object" &&
+  typeof (value as TemplateParameterError).code === "number";
+
+/**
+ * Validates the `components` of a `type: template` send against the stored
+ * template and renders the message the customer would receive.
+ */
+export const renderTemplateMessage = (
+  template: MessageTemplate,
+  sendComponents: unknown
+): TemplateRenderResult => {
+  const components = normalizeSendComponents(sendComponents);
+  const findSection = (type: string): SendComponent | undefined =>
+    components.find((c) => c.type === type);
+
+  const headerTpl: TemplateComponent | undefined = template.components.find(
+    (c) => c.type === "HEADER"
+  );
+  const bodyText =
+    template.components.find((c) => c.type === "BODY")?.text ??
+    template.bodyText ??
+    "";
+  const footerText =
+    template.components.find((c) => c.type === "FOOTER")?.text ??
+    template.footerText;
+  const buttonsTpl =
+    template.components.find((c) => c.type === "BUTTONS")?.buttons ?? [];
+
+  const rendered: RenderedTemplate = {
+    template_id: template.id,
+    name: template.name,
+    language: template.languageCode,
+    body: "",
+    buttons: [],
+    text: "",
+  };
+
+  // Header: text placeholders or a single media/location parameter
+  const headerParams = findSection("header")?.parameters ?? [];
+  const headerFormat = (headerTpl?.format ?? "TEXT").toUpperCase();
+  if (headerTpl && headerFormat !== "TEXT") {
+    if (headerParams.length !== 1) {
+      return {
+        ok: false,
+        error: countMismatch("header", headerParams.length, 1),
+      };
+    }
+    const param = headerParams[0] as SendParameter;
+    const expectedType = headerFormat.toLowerCase();
+    const received =
+      typeof param.type === "string" ? param.type.toLowerCase() : "unknown";
+    const media = param[expectedType];
+    if (received !== expectedType || !media || typeof media !== "object") {
+      return {
+        ok: false,
+        error: formatMismatch(
+          `header: Format mismatch, expected ${headerFormat}, received ${received.toUpperCase()}`
+        ),
+      };
+    }
+    if (MEDIA_HEADER_FORMATS.includes(headerFormat)) {
+      const { link, id } = media as Record<string, unknown>;
+      if (typeof link !== "string" && typeof id !== "string") {
+        return {
+          ok: false,
+          error: formatMismatch(
+            `header: ${expectedType} parameter requires a link or id`
+          ),
+        };
+      }
+      rendered.header_media = {
+        type: expectedType,
+        ...(typeof link === "string" ? { link } : {}),
+        ...(typeof id === "string" ? { id } : {}),
+      };
+    } else {
+      rendered.header_media = { type: expectedType };
+    }
+  } else {
+    const headerText = headerTpl?.text ?? template.headerText;
+    const values = resolveTextParameters(
+      "header",
+      extractPlaceholders(headerText),
+      headerParams
+    );
+    if (isError(values)) return { ok: false, error: values };
+    if (headerText) rendered.header = fillPlaceholders(headerText, values);
+  }
+
+  // Body
+  const bodyValues = resolveTextParameters(
+    "body",
+    extractPlaceholders(bodyText),
+    findSection("body")?.parameters ?? []
+  );
+  if (isError(bodyValues)) return { ok: false, error: bodyValues };
+  rendered.body = fillPlaceholders(bodyText, bodyValues);
+
+  if (footerText) rendered.footer = footerText;
+
+  // Buttons are addressed by their index in the template
+  const buttonSends = components.filter((c) => c.type === "button");
+  for (const send of buttonSends) {
+    if (
+      send.index === undefined ||
+      send.index < 0 ||
+      send.index >= buttonsTpl.length
+    ) {
+      return {
+        ok: false,
+        error: countMismatch(
+          `button at index ${send.index ?? "?"}`,
+          send.parameters.length,
+          0
+        ),
+      };
+    }
+  }
+
+  for (const [index, button] of buttonsTpl.entries()) {
+    const send = buttonSends.find((c) => c.index === index);
+    const params = send?.parameters ?? [];
+    const section = `button at index ${index}`;
+    const renderedButton: RenderedTemplateButton = {
+      index,
+      type: button.type,
+      text: button.text,
+    };
+
+    if (button.type === "URL") {
+      const placeholders = extractPlaceholders(button.url);
+      if (params.length !== placeholders.length) {
+        return {
+          ok: false,
+          error: countMismatch(section, params.length, placeholders.length),
+        };
+      }
+      const param = params[0];
+      if (param && readTextValue(param) === undefined) {
+        return {
+          ok: false,
+          error: formatMismatch(`${section}: URL parameter must be of type text`),
+        };
+      }
+      const values = new Map<string, string>();
+      const name = placeholders[0];
+      if (param && name !== undefined) {
+        values.set(name, readTextValue(param) as string);
+      }
+      if (button.url) renderedButton.url = fillPlaceholders(button.url, values);
+    } else if (button.type === "COPY_CODE") {
+      if (params.length !== 1) {
+        return { ok: false, error: countMismatch(section, params.length, 1) };
+      }
+      const param = params[0] as SendParameter;
+      if (param.type !== "coupon_code" || typeof param.coupon_code !== "string") {
+        return {
+          ok: false,
+          error: formatMismatch(
+            `${section}: expected a coupon_code parameter for COPY_CODE button`
+          ),
+        };
+      }
+      renderedButton.coupon_code = param.coupon_code;
+    } else if (button.type === "QUICK_REPLY") {
+      if (params.length > 1) {
+        return { ok: false, error: countMismatch(section, params.length, 1) };
+      }
+      const param = params[0];
+      if (param) {
+        if (param.type !== "payload" || typeof param.payload !== "string") {
+          return {
+            ok: false,
+            error: formatMismatch(
+              `${section}: expected a payload parameter for QUICK_REPLY button`
+            ),
+          };
+        }
+        renderedButton.payload = param.payload;
+      }
+    } else if (params.length > 0) {
+      return { ok: false, error: countMismatch(section, params.length, 0) };
+    }
+
+    rendered.buttons.push(renderedButton);
+  }
+
+  rendered.text = [rendered.header, rendered.body, rendered.footer]
+    .filter((part): part is string => !!part)
+    .join("\n\n");
+
+  return { ok: true, rendered };
+};
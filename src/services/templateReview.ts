@@ -0,0 +1,213 @@
+import { extractPlaceholders } from "./templateRendering";
+import {
+  getTemplateById,
+  MessageTemplate,
+  TemplateButtonType,
+  TemplateRejectionReason,
+  updateTemplateStatus,
+} from "../state/templates";
+import {
+  getTemplateReviewConfig,
+  TemplateLintRuleId,
+} from "../state/templateReview";
+
+export interface TemplateLintIssue {
+  rule: TemplateLintRuleId;
+  reason: TemplateRejectionReason;
+  message: string;
+}
+
+const NAME_PATTERN = /^[a-z0-9_]{1,512}$/;
+
+const LENGTH_LIMITS = {
+  header: 60,
+  body: 1024,
+  footer: 60,
+  button: 25,
+};
+
+const MAX_BUTTONS = 10;
+const MAX_BUTTONS_BY_TYPE: Partial<Record<TemplateButtonType, number>> = {
+  URL: 2,
+  PHONE_NUMBER: 1,
+  COPY_CODE: 1,
+};
+
+const MEDIA_HEADER_FORMATS = ["IMAGE", "VIDEO", "DOCUMENT"];
+
+// Every lint rule checks formatting, which the Cloud API rejects as one reason
+const LINT_REJECTION_REASON: TemplateRejectionReason = "INVALID_FORMAT";
+
+/**
+ * Runs the enabled lint rules against a template, mirroring the most common
+ * reasons Meta rejects submissions.
+ */
+export const lintTemplate = (template: MessageTemplate): TemplateLintIssue[] => {
+  const { rules } = getTemplateReviewConfig();
+  const issues: TemplateLintIssue[] = [];
+  const report = (rule: TemplateLintRuleId, message: string): void => {
+    if (rules[rule]) {
+      issues.push({ rule, reason: LINT_REJECTION_REASON, message });
+    }
+  };
+
+  const header = template.components.find((c) => c.type === "HEADER");
+  const body = template.components.find((c) => c.type === "BODY");
+  const footer = template.components.find((c) => c.type === "FOOTER");
+  const buttons =
+    template.components.find((c) => c.type === "BUTTONS")?.buttons ?? [];
+
+  const bodyText = body?.text ?? template.bodyText ?? "";
+  const headerText = header?.text ?? template.headerText;
+  const footerText = footer?.text ?? template.footerText;
+
+  if (!NAME_PATTERN.test(template.name)) {
+    report(
+      "name_format",
+      "Template name may only contain lowercase letters, numbers and underscores (max 512 characters)."
+    );
+  }
+
+  const trimmedBody = bodyText.trim();
+  if (/^\{\{[^}]+\}\}/.test(trimmedBody) || /\{\{[^}]+\}\}$/.test(trimmedBody)) {
+    report(
+      "variable_at_edges",
+      "Body text can't start or end with a variable parameter."
+    );
+  }
+
+  if (/\}\}\s*\{\{/.test(bodyText)) {
+    report(
+      "adjacent_variables",
+      "Body text can't contain adjacent variable parameters."
+    );
+  }
+
+  const bodyPlaceholders = extractPlaceholders(bodyText);
+  const positional = bodyPlaceholders.every((name) => /^\d+$/.test(name));
+  if (positional) {
+    const sorted = bodyPlaceholders.map(Number).sort((a, b) => a - b);
+    if (sorted.some((value, i) => value !== i + 1)) {
+      report(
+        "variable_sequence",
+        "Variable parameters must be sequential, starting at {{1}}."
+      );
+    }
+  }
+
+  if (buttons.length > MAX_BUTTONS) {
+    report(
+      "too_many_buttons",
+      `Templates can have at most ${MAX_BUTTONS} buttons.`
+    );
+  }
+  for (const [type, max] of Object.entries(MAX_BUTTONS_BY_TYPE)) {
+    const count = buttons.filter((b) => b.type === type).length;
+    if (max !== undefined && count > max) {
+      report(
+        "too_many_buttons",
+        `Templates can have at most ${max} ${type} button(s).`
+      );
+    }
+  }
+
+  if (headerText && headerText.length > LENGTH_LIMITS.header) {
+    report(
+      "length_limits",
+      `Header text exceeds ${LENGTH_LIMITS.header} characters.`
+    );
+  }
+  if (bodyText.length > LENGTH_LIMITS.body) {
+    report("length_limits", `Body text exceeds ${LENGTH_LIMITS.body} characters.`);
+  }
+  if (footerText && footerText.length > LENGTH_LIMITS.footer) {
+    report(
+      "length_limits",
+      `Footer text exceeds ${LENGTH_LIMITS.footer} characters.`
+    );
+  }
+  for (const button of buttons) {
+    if (button.text.length > LENGTH_LIMITS.button) {
+      report(
+        "length_limits",
+        `Button text "${button.text}" exceeds ${LENGTH_LIMITS.button} characters.`
+      );
+    }
+  }
+
+  const bodyExample = body?.example;
+  if (
+    bodyPlaceholders.length > 0 &&
+    !bodyExample?.body_text &&
+    !bodyExample?.body_text_named_params
+  ) {
+    report(
+      "missing_examples",
+      "Body text contains variables but no example values were provided."
+    );
+  }
+  const headerExample = header?.example;
+  if (
+    extractPlaceholders(headerText).length > 0 &&
+    !headerExample?.header_text &&
+    !headerExample?.header_text_named_params
+  ) {
+    report(
+      "missing_examples",
+      "Header text contains variables but no example values were provided."
+    );
+  }
+  if (
+    header?.format &&
+    MEDIA_HEADER_FORMATS.includes(header.format.toUpperCase()) &&
+    !headerExample?.header_handle
+  ) {
+    report(
+      "missing_examples",
+      `${header.format.toUpperCase()} header requires an example header_handle.`
+    );
+  }
+  for (const button of buttons) {
+    if (
+      button.type === "URL" &&
+      extractPlaceholders(button.url).length > 0 &&
+      !button.example?.length
+    ) {
+      report(
+        "missing_examples",
+        `URL button "${button.text}" contains a variable but no example URL.`
+      );
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Schedules the automated review of a PENDING template. After the configured
+ * delay the template is APPROVED, or REJECTED with the first lint issue's
+ * reason. Templates whose status changed in the meantime are left alone.
+ */
+export const scheduleTemplateReview = (templateId: string): boolean => {
+  const config = getTemplateReviewConfig();
+  if (!config.enabled) return false;
+
+  setTimeout(() => {
+    const template = getTemplateById(templateId);
+    if (!template || template.status !== "PENDING") return;
+
+    const issues = lintTemplate(template);
+    const [first] = issues;
+    if (!first) {
+      updateTemplateStatus(templateId, "APPROVED");
+      return;
+    }
+
+    updateTemplateStatus(templateId, "REJECTED", {
+      rejectionReason: first.reason,
+      rejectionNote: issues.map((issue) => issue.message).join(" "),
+    });
+  }, config.delayMs);
+
+  return true;
+};
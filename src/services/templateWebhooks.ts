@@ -0,0 +1,91 @@
+import { forwardAccountUpdate } from "./accountWebhooks";
+import { WabaAccountChange, WabaTemplateStatusUpdateValue } from "../types/waba";
+import {
+  subscribeTemplateChanges,
+  TemplateChange,
+  TemplateStatusChange,
+} from "../state/templates";
+import { getTemplateFeedback } from "../state/templateQuality";
+
+const PAUSE_TITLES = ["FIRST_PAUSE", "SECOND_PAUSE"];
+
+const buildStatusUpdateValue = (
+  change: TemplateStatusChange
+): WabaTemplateStatusUpdateValue => {
+  const { template } = change;
+  const value: WabaTemplateStatusUpdateValue = {
+    event: change.status,
+    message_template_id: template.id,
+    message_template_name: template.name,
+    message_template_language: template.languageCode,
+    reason: change.reason ?? "NONE",
+  };
+
+  const description =
+    change.note ??
+    `Template ${template.name} was ${change.status.toLowerCase()} in the sandbox.`;
+  if (change.status === "PAUSED") {
+    const { pauseCount } = getTemplateFeedback(template.id);
+    value.other_info = {
+      title: PAUSE_TITLES[pauseCount - 1] ?? "FIRST_PAUSE",
+      description,
+    };
+  } else if (change.status === "DISABLED") {
+    value.other_info = { title: "TEMPLATE_DISABLED", description };
+  } else if (
+    change.status === "APPROVED" &&
+    change.previousStatus === "PAUSED"
+  ) {
+    value.other_info = { title: "UNPAUSE", description };
+  }
+  return value;
+};
+
+const toAccountChange = (change: TemplateChange): WabaAccountChange => {
+  const { template } = change;
+  const base = {
+    message_template_id: template.id,
+    message_template_name: template.name,
+    message_template_language: template.languageCode,
+  };
+
+  switch (change.kind) {
+    case "status":
+      return {
+        field: "message_template_status_update",
+        value: { ...buildStatusUpdateValue(change) },
+      };
+    case "quality":
+      return {
+        field: "message_template_quality_update",
+        value: {
+          previous_quality_score: change.previousScore,
+          new_quality_score: change.score,
+          ...base,
+        },
+      };
+    case "category":
+      return {
+        field: "template_category_update",
+        value: {
+          ...base,
+          previous_category: change.previousCategory,
+          new_category: change.category,
+        },
+      };
+  }
+};
+
+/**
+ * Forwards template webhooks to the template's WABA:
+ * `message_template_status_update`, `message_template_quality_update` and
+ * `template_category_update`.
+ */
+export const registerTemplateWebhooks = (): (() => void) =>
+  subscribeTemplateChanges((change) => {
+    void forwardAccountUpdate({
+      wabaId: change.template.wabaId,
+      change: toAccountChange(change),
+      source: `template-${change.kind}`,
+    });
+  });
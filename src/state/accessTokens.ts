@@ -0,0 +1,116 @@
+import crypto from "crypto";
+
+export type GraphPermission =
+  | "whatsapp_business_messaging"
+  | "whatsapp_business_management";
+
+export type AccessTokenType = "SYSTEM_USER" | "USER";
+
+export const GRAPH_PERMISSIONS: GraphPermission[] = [
+  "whatsapp_business_messaging",
+  "whatsapp_business_management",
+];
+
+/**
+ * Opaque Graph access token issued by the sandbox. Permissions only apply to
+ * the assigned WABAs and phone numbers (a phone is also covered through its
+ * WABA).
+ */
+export interface GraphAccessToken {
+  /** Stable handle for listings and revocation, unlike the secret token */
+  id: string;
+  token: string;
+  type: AccessTokenType;
+  appId: string;
+  userId: string;
+  name?: string;
+  scopes: GraphPermission[];
+  wabaIds: string[];
+  phoneIds: string[];
+  issuedAt: number;
+  /** null for tokens that never expire (system users) */
+  expiresAt: number | null;
+}
+
+export const SANDBOX_APP_ID = "100000000000000";
+
+// User access tokens are short-lived, like Graph Explorer tokens
+const DEFAULT_USER_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const tokens = new Map<string, GraphAccessToken>();
+
+const uniqueStrings = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(
+        new Set(
+          value.filter((v): v is string => typeof v === "string" && !!v)
+        )
+      )
+    : [];
+
+const createOpaqueToken = (): string =>
+  `EAA${crypto
+    .randomBytes(48)
+    .toString("base64")
+    .replace(/[^A-Za-z0-9]/g, "")}`;
+
+export const isGraphPermission = (value: unknown): value is GraphPermission =>
+  typeof value === "string" &&
+  GRAPH_PERMISSIONS.includes(value as GraphPermission);
+
+export const issueAccessToken = (input: {
+  type: AccessTokenType;
+  userId?: string;
+  name?: string;
+  scopes?: GraphPermission[];
+  wabaIds?: unknown;
+  phoneIds?: unknown;
+  /** Lifetime in ms; system user tokens never expire unless set */
+  ttlMs?: number;
+  now?: number;
+}): GraphAccessToken => {
+  const now = input.now ?? Date.now();
+  const ttlMs =
+    input.ttlMs ??
+    (input.type === "USER" ? DEFAULT_USER_TOKEN_TTL_MS : undefined);
+
+  const token: GraphAccessToken = {
+    id: crypto.randomBytes(8).toString("hex"),
+    token: createOpaqueToken(),
+    type: input.type,
+    appId: SANDBOX_APP_ID,
+    userId:
+      input.userId ??
+      `${input.type === "SYSTEM_USER" ? "6" : "1"}${String(now).slice(-14)}`,
+    scopes: input.scopes ?? [...GRAPH_PERMISSIONS],
+    wabaIds: uniqueStrings(input.wabaIds),
+    phoneIds: uniqueStrings(input.phoneIds),
+    issuedAt: now,
+    expiresAt: ttlMs !== undefined ? now + ttlMs : null,
+  };
+  if (input.name) {
+    token.name = input.name;
+  }
+
+  tokens.set(token.token, token);
+  return token;
+};
+
+export const getAccessToken = (
+  token: string
+): GraphAccessToken | undefined => tokens.get(token);
+
+export const listAccessTokens = (): GraphAccessToken[] =>
+  Array.from(tokens.values());
+
+/** Revokes a token by its value or by its `id` */
+export const revokeAccessToken = (tokenOrId: string): boolean => {
+  if (tokens.delete(tokenOrId)) return true;
+  const match = listAccessTokens().find((t) => t.id === tokenOrId);
+  return match ? tokens.delete(match.token) : false;
+};
+
+export const isAccessTokenExpired = (
+  token: GraphAccessToken,
+  now: number = Date.now()
+): boolean => token.expiresAt !== null && token.expiresAt <= now;
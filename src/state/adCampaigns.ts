@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { WabaReferral } from "../types/waba";
+
+/** A Click-to-WhatsApp ad (or post) used to build inbound `referral` objects */
+export interface AdCampaign {
+  /** Ad or post ID, sent as `referral.source_id` */
+  id: string;
+  name: string;
+  sourceType: WabaReferral["source_type"];
+  sourceUrl: string;
+  headline?: string;
+  body?: string;
+  mediaType?: "image" | "video";
+  /** Image URL, or the video URL for video ads */
+  mediaUrl?: string;
+  thumbnailUrl?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const campaigns = new Map<string, AdCampaign>();
+
+export const listAdCampaigns = (): AdCampaign[] =>
+  Array.from(campaigns.values());
+
+export const getAdCampaign = (id: string): AdCampaign | undefined =>
+  campaigns.get(id);
+
+export const upsertAdCampaign = (
+  input: Omit<AdCampaign, "createdAt" | "updatedAt">
+): AdCampaign => {
+  const now = Date.now();
+  const campaign: AdCampaign = {
+    ...input,
+    createdAt: campaigns.get(input.id)?.createdAt ?? now,
+    updatedAt: now,
+  };
+  campaigns.set(campaign.id, campaign);
+  return campaign;
+};
+
+export const deleteAdCampaign = (id: string): boolean => campaigns.delete(id);
+
+// Every ad click gets its own click ID
+const generateCtwaClid = (): string =>
+  `ARA${crypto.randomBytes(32).toString("base64url")}`;
+
+/** Builds the `referral` of a message sent from a click on the campaign */
+export const buildCampaignReferral = (campaign: AdCampaign): WabaReferral => {
+  const referral: WabaReferral = {
+    source_url: campaign.sourceUrl,
+    source_id: campaign.id,
+    source_type: campaign.sourceType,
+    ctwa_clid: generateCtwaClid(),
+  };
+  if (campaign.headline) referral.headline = campaign.headline;
+  if (campaign.body) referral.body = campaign.body;
+  if (campaign.mediaType) {
+    referral.media_type = campaign.mediaType;
+    if (campaign.mediaUrl) {
+      if (campaign.mediaType === "video") {
+        referral.video_url = campaign.mediaUrl;
+      } else {
+        referral.image_url = campaign.mediaUrl;
+      }
+    }
+  }
+  if (campaign.thumbnailUrl) referral.thumbnail_url = campaign.thumbnailUrl;
+  return referral;
+};
+
+/**
+ * Checks a raw `referral` object from a simulate request and fills in a
+ * click ID when missing. Returns an error message for invalid input.
+ */
+export const normalizeReferral = (
+  raw: unknown
+): { referral: WabaReferral } | { error: string } => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "'referral' must be an object" };
+  }
+  const value = raw as Record<string, unknown>;
+  if (typeof value.source_url !== "string" || !value.source_url) {
+    return { error: "'referral.source_url' is required" };
+  }
+  if (typeof value.source_id !== "string" || !value.source_id) {
+    return { error: "'referral.source_id' is required" };
+  }
+  if (value.source_type !== "ad" && value.source_type !== "post") {
+    return { error: "'referral.source_type' must be 'ad' or 'post'" };
+  }
+  if (
+    value.media_type !== undefined &&
+    value.media_type !== "image" &&
+    value.media_type !== "video"
+  ) {
+    return { error: "'referral.media_type' must be 'image' or 'video'" };
+  }
+
+  const referral: WabaReferral = {
+    source_url: value.source_url,
+    source_id: value.source_id,
+    source_type: value.source_type,
+    ctwa_clid:
+      typeof value.ctwa_clid === "string" && value.ctwa_clid
+        ? value.ctwa_clid
+        : generateCtwaClid(),
+  };
+  const optionalKeys = [
+    "headline",
+    "body",
+    "image_url",
+    "video_url",
+    "thumbnail_url",
+  ] as const;
+  for (const key of optionalKeys) {
+    const field = value[key];
+    if (typeof field === "string" && field) referral[key] = field;
+  }
+  if (value.media_type !== undefined) referral.media_type = value.media_type;
+  return { referral };
+};
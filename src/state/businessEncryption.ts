@@ -0,0 +1,30 @@
+export type PublicKeySignatureStatus = "VALID" | "MISMATCH";
+
+/** Business public key used to encrypt Flow data_exchange requests */
+export interface BusinessEncryptionKey {
+  phoneId: string;
+  /** PEM-encoded RSA public key */
+  publicKey: string;
+  signatureStatus: PublicKeySignatureStatus;
+  updatedAt: number;
+}
+
+const keys = new Map<string, BusinessEncryptionKey>();
+
+export const getBusinessEncryptionKey = (
+  phoneId: string
+): BusinessEncryptionKey | undefined => keys.get(phoneId);
+
+export const setBusinessEncryptionKey = (params: {
+  phoneId: string;
+  publicKey: string;
+}): BusinessEncryptionKey => {
+  const key: BusinessEncryptionKey = {
+    phoneId: params.phoneId,
+    publicKey: params.publicKey,
+    signatureStatus: "VALID",
+    updatedAt: Date.now(),
+  };
+  keys.set(params.phoneId, key);
+  return key;
+};
@@ -0,0 +1,108 @@
+import { MessagingLimitTier } from "./messagingLimits";
+import { listPhoneNumbers } from "./webhookRouting";
+
+/**
+ * `phone` keeps a separate unique-recipient limit per number; `portfolio`
+ * shares the business tier across every number it owns.
+ */
+export type MessagingLimitMode = "phone" | "portfolio";
+
+export interface BusinessPortfolio {
+  id: string;
+  name: string;
+  wabaIds: string[];
+  /** Numbers owned directly, in addition to those of the WABAs */
+  phoneIds: string[];
+  messagingLimitMode: MessagingLimitMode;
+  /** Shared tier used in `portfolio` mode */
+  tier: MessagingLimitTier;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const businesses = new Map<string, BusinessPortfolio>();
+
+const uniqueStrings = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return Array.from(
+    new Set(value.filter((v): v is string => typeof v === "string" && !!v))
+  );
+};
+
+export const listBusinesses = (): BusinessPortfolio[] =>
+  Array.from(businesses.values());
+
+export const getBusiness = (id: string): BusinessPortfolio | undefined =>
+  businesses.get(id);
+
+export const upsertBusiness = (input: {
+  id: string;
+  name?: string;
+  wabaIds?: unknown;
+  phoneIds?: unknown;
+  messagingLimitMode?: MessagingLimitMode;
+  tier?: MessagingLimitTier;
+}): BusinessPortfolio => {
+  const now = Date.now();
+  const business: BusinessPortfolio = businesses.get(input.id) ?? {
+    id: input.id,
+    name: input.name ?? input.id,
+    wabaIds: [],
+    phoneIds: [],
+    messagingLimitMode: "phone",
+    tier: "TIER_1K",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (typeof input.name === "string" && input.name) {
+    business.name = input.name;
+  }
+  const wabaIds = uniqueStrings(input.wabaIds);
+  if (wabaIds) {
+    business.wabaIds = wabaIds;
+  }
+  const phoneIds = uniqueStrings(input.phoneIds);
+  if (phoneIds) {
+    business.phoneIds = phoneIds;
+  }
+  if (input.messagingLimitMode !== undefined) {
+    business.messagingLimitMode = input.messagingLimitMode;
+  }
+  if (input.tier !== undefined) {
+    business.tier = input.tier;
+  }
+  business.updatedAt = now;
+
+  businesses.set(business.id, business);
+  return business;
+};
+
+export const deleteBusiness = (id: string): boolean => businesses.delete(id);
+
+/** Phone numbers owned directly or through one of the business's WABAs */
+export const listBusinessPhoneIds = (business: BusinessPortfolio): string[] => {
+  const ids = new Set(business.phoneIds);
+  for (const phone of listPhoneNumbers()) {
+    if (phone.wabaId && business.wabaIds.includes(phone.wabaId)) {
+      ids.add(phone.id);
+    }
+  }
+  return Array.from(ids);
+};
+
+export const getBusinessForPhone = (
+  phoneId: string
+): BusinessPortfolio | undefined => {
+  for (const business of businesses.values()) {
+    if (listBusinessPhoneIds(business).includes(phoneId)) {
+      return business;
+    }
+  }
+  return undefined;
+};
+
+export const getBusinessForWaba = (
+  wabaId: string
+): BusinessPortfolio | undefined =>
+  listBusinesses().find((b) => b.wabaIds.includes(wabaId));
@@ -0,0 +1,180 @@
+import crypto from "crypto";
+
+export type CallDirection = "USER_INITIATED" | "BUSINESS_INITIATED";
+
+export type CallState =
+  | "ringing"
+  | "pre_accepted"
+  | "accepted"
+  | "rejected"
+  | "ended";
+
+export type CallAction =
+  | "connect"
+  | "pre_accept"
+  | "accept"
+  | "reject"
+  | "terminate";
+
+export const CALL_ACTIONS: CallAction[] = [
+  "connect",
+  "pre_accept",
+  "accept",
+  "reject",
+  "terminate",
+];
+
+export type CallEndStatus = "COMPLETED" | "FAILED";
+
+export interface CallSession {
+  sdp_type: "offer" | "answer";
+  sdp: string;
+}
+
+export interface WhatsAppCall {
+  id: string;
+  phoneId: string;
+  /** The WhatsApp user on the other end of the call */
+  waId: string;
+  direction: CallDirection;
+  state: CallState;
+  offer?: CallSession;
+  answer?: CallSession;
+  bizOpaqueCallbackData?: string;
+  endStatus?: CallEndStatus;
+  history: Array<{ state: CallState; by: "user" | "business"; at: number }>;
+  createdAt: number;
+  acceptedAt?: number;
+  endedAt?: number;
+}
+
+/** Per-number `calling` block of `/<PHONE_ID>/settings` */
+export interface CallingSettings {
+  status: "ENABLED" | "DISABLED";
+  callIconVisibility: "DEFAULT" | "DISABLE_ALL";
+  callbackPermissionStatus: "ENABLED" | "DISABLED";
+  callHours?: Record<string, unknown>;
+}
+
+// States each action may be taken from; rejected and ended are final
+const CALL_TRANSITIONS: Record<
+  Exclude<CallAction, "connect">,
+  { from: CallState[]; to: CallState }
+> = {
+  pre_accept: { from: ["ringing"], to: "pre_accepted" },
+  accept: { from: ["ringing", "pre_accepted"], to: "accepted" },
+  reject: { from: ["ringing", "pre_accepted"], to: "rejected" },
+  terminate: { from: ["ringing", "pre_accepted", "accepted"], to: "ended" },
+};
+
+const calls = new Map<string, WhatsAppCall>();
+const settings = new Map<string, CallingSettings>();
+
+const generateCallId = (): string =>
+  // Call IDs look like wacid.<base64>, like message IDs use wamid.
+  `wacid.${crypto.randomBytes(24).toString("base64url")}`;
+
+export const isCallAction = (value: unknown): value is CallAction =>
+  typeof value === "string" && CALL_ACTIONS.includes(value as CallAction);
+
+export const isCallActive = (call: WhatsAppCall): boolean =>
+  call.state !== "rejected" && call.state !== "ended";
+
+export const canApplyCallAction = (
+  call: WhatsAppCall,
+  action: Exclude<CallAction, "connect">
+): boolean => CALL_TRANSITIONS[action].from.includes(call.state);
+
+export const listCalls = (phoneId?: string): WhatsAppCall[] =>
+  Array.from(calls.values()).filter((c) => !phoneId || c.phoneId === phoneId);
+
+export const getCall = (id: string): WhatsAppCall | undefined => calls.get(id);
+
+/** The user's ongoing call with the phone number, if any */
+export const findActiveCall = (
+  phoneId: string,
+  waId: string
+): WhatsAppCall | undefined =>
+  listCalls(phoneId).find((c) => c.waId === waId && isCallActive(c));
+
+export const createCall = (input: {
+  phoneId: string;
+  waId: string;
+  direction: CallDirection;
+  offer: CallSession;
+  bizOpaqueCallbackData?: string;
+}): WhatsAppCall => {
+  const now = Date.now();
+  const call: WhatsAppCall = {
+    id: generateCallId(),
+    phoneId: input.phoneId,
+    waId: input.waId,
+    direction: input.direction,
+    state: "ringing",
+    offer: input.offer,
+    history: [
+      {
+        state: "ringing",
+        by: input.direction === "USER_INITIATED" ? "user" : "business",
+        at: now,
+      },
+    ],
+    createdAt: now,
+  };
+  if (input.bizOpaqueCallbackData) {
+    call.bizOpaqueCallbackData = input.bizOpaqueCallbackData;
+  }
+  calls.set(call.id, call);
+  return call;
+};
+
+/**
+ * Moves the call to the state the action leads to. Callers check
+ * `canApplyCallAction` first; ending a call records whether it was answered.
+ */
+export const applyCallAction = (
+  call: WhatsAppCall,
+  action: Exclude<CallAction, "connect">,
+  by: "user" | "business",
+  answer?: CallSession
+): WhatsAppCall => {
+  const now = Date.now();
+  const state = CALL_TRANSITIONS[action].to;
+
+  if (answer) {
+    call.answer = answer;
+  }
+  if (state === "accepted") {
+    call.acceptedAt = now;
+  }
+  if (state === "rejected" || state === "ended") {
+    call.endedAt = now;
+    call.endStatus = call.acceptedAt ? "COMPLETED" : "FAILED";
+  }
+  call.state = state;
+  call.history.push({ state, by, at: now });
+  return call;
+};
+
+/** Seconds between the call being answered and ending, 0 if never answered */
+export const getCallDuration = (call: WhatsAppCall): number =>
+  call.acceptedAt && call.endedAt
+    ? Math.round((call.endedAt - call.acceptedAt) / 1000)
+    : 0;
+
+export const getCallingSettings = (phoneId: string): CallingSettings =>
+  settings.get(phoneId) ?? {
+    // Calling is off until the business enables it
+    status: "DISABLED",
+    callIconVisibility: "DEFAULT",
+    callbackPermissionStatus: "DISABLED",
+  };
+
+export const updateCallingSettings = (
+  phoneId: string,
+  patch: Partial<CallingSettings>
+): CallingSettings => {
+  const next: CallingSettings = { ...getCallingSettings(phoneId), ...patch };
+  settings.set(phoneId, next);
+  return next;
+};
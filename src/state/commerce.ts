@@ -0,0 +1,181 @@
+import { getPhoneNumber } from "./webhookRouting";
+
+export type ProductAvailability =
+  | "in stock"
+  | "out of stock"
+  | "preorder"
+  | "available for order"
+  | "discontinued";
+
+export const PRODUCT_AVAILABILITIES: ProductAvailability[] = [
+  "in stock",
+  "out of stock",
+  "preorder",
+  "available for order",
+  "discontinued",
+];
+
+export interface ProductCatalog {
+  id: string;
+  name: string;
+  /** WABA the catalog is connected to */
+  wabaId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CatalogProduct {
+  catalogId: string;
+  /** Content ID used as `product_retailer_id` in messages */
+  retailerId: string;
+  name: string;
+  description?: string;
+  /** Price in major units (e.g. 12.5) */
+  price: number;
+  currency: string;
+  availability: ProductAvailability;
+  imageUrl?: string;
+  updatedAt: number;
+}
+
+/** Per-number `whatsapp_commerce_settings` */
+export interface CommerceSettings {
+  id: string;
+  phoneId: string;
+  isCartEnabled: boolean;
+  isCatalogVisible: boolean;
+}
+
+const catalogs = new Map<string, ProductCatalog>();
+// catalogId -> retailerId -> product
+const products = new Map<string, Map<string, CatalogProduct>>();
+const settings = new Map<string, CommerceSettings>();
+
+export const isProductAvailability = (
+  value: unknown
+): value is ProductAvailability =>
+  typeof value === "string" &&
+  PRODUCT_AVAILABILITIES.includes(value as ProductAvailability);
+
+// Out of stock and discontinued items can't be shown in product messages
+export const isProductSendable = (product: CatalogProduct): boolean =>
+  product.availability !== "out of stock" &&
+  product.availability !== "discontinued";
+
+export const listCatalogs = (wabaId?: string): ProductCatalog[] =>
+  Array.from(catalogs.values()).filter((c) => !wabaId || c.wabaId === wabaId);
+
+export const getCatalog = (id: string): ProductCatalog | undefined =>
+  catalogs.get(id);
+
+export const upsertCatalog = (input: {
+  id: string;
+  name?: string;
+  wabaId?: string;
+}): ProductCatalog => {
+  const now = Date.now();
+  const catalog: ProductCatalog = catalogs.get(input.id) ?? {
+    id: input.id,
+    name: input.name ?? input.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (input.name) {
+    catalog.name = input.name;
+  }
+  if (input.wabaId !== undefined) {
+    if (input.wabaId) {
+      catalog.wabaId = input.wabaId;
+    } else {
+      delete catalog.wabaId;
+    }
+  }
+  catalog.updatedAt = now;
+
+  catalogs.set(catalog.id, catalog);
+  return catalog;
+};
+
+export const deleteCatalog = (id: string): boolean => {
+  products.delete(id);
+  return catalogs.delete(id);
+};
+
+/** The catalog connected to the phone number's WABA, if any */
+export const getCatalogForPhone = (
+  phoneId: string
+): ProductCatalog | undefined => {
+  const wabaId = getPhoneNumber(phoneId)?.wabaId;
+  return wabaId ? listCatalogs(wabaId)[0] : undefined;
+};
+
+export const listProducts = (catalogId: string): CatalogProduct[] =>
+  Array.from(products.get(catalogId)?.values() ?? []);
+
+export const getProduct = (
+  catalogId: string,
+  retailerId: string
+): CatalogProduct | undefined => products.get(catalogId)?.get(retailerId);
+
+export const upsertProduct = (input: {
+  catalogId: string;
+  retailerId: string;
+  name: string;
+  description?: string;
+  price: number;
+  currency: string;
+  availability?: ProductAvailability;
+  imageUrl?: string;
+}): CatalogProduct => {
+  const product: CatalogProduct = {
+    catalogId: input.catalogId,
+    retailerId: input.retailerId,
+    name: input.name,
+    price: input.price,
+    currency: input.currency.toUpperCase(),
+    availability: input.availability ?? "in stock",
+    updatedAt: Date.now(),
+  };
+  if (input.description) {
+    product.description = input.description;
+  }
+  if (input.imageUrl) {
+    product.imageUrl = input.imageUrl;
+  }
+
+  const catalogProducts = products.get(input.catalogId) ?? new Map();
+  catalogProducts.set(product.retailerId, product);
+  products.set(input.catalogId, catalogProducts);
+  return product;
+};
+
+export const deleteProduct = (catalogId: string, retailerId: string): boolean =>
+  products.get(catalogId)?.delete(retailerId) ?? false;
+
+export const getCommerceSettings = (phoneId: string): CommerceSettings =>
+  settings.get(phoneId) ?? {
+    // Settings objects have their own Graph ID
+    id: `${phoneId}01`,
+    phoneId,
+    isCartEnabled: true,
+    isCatalogVisible: true,
+  };
+
+export const updateCommerceSettings = (
+  phoneId: string,
+  patch: { isCartEnabled?: boolean; isCatalogVisible?: boolean }
+): CommerceSettings => {
+  const current = getCommerceSettings(phoneId);
+  const next: CommerceSettings = {
+    ...current,
+    ...(patch.isCartEnabled !== undefined
+      ? { isCartEnabled: patch.isCartEnabled }
+      : {}),
+    ...(patch.isCatalogVisible !== undefined
+      ? { isCatalogVisible: patch.isCatalogVisible }
+      : {}),
+  };
+  settings.set(phoneId, next);
+  return next;
+};
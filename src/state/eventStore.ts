@@ -4,8 +4,11 @@ export type EventType =
   | "webhook.incoming"
   | "simulate.message"
   | "simulate.status"
+  | "simulate.account_update"
   | "config.update"
-  | "graph.message";
+  | "graph.message"
+  | "flow.data_exchange"
+  | "simulate.call";
 
 export interface SandboxEvent {
   id: string;
@@ -0,0 +1,195 @@
+import crypto from "crypto";
+
+export type FlowStatus =
+  | "DRAFT"
+  | "PUBLISHED"
+  | "DEPRECATED"
+  | "BLOCKED"
+  | "THROTTLED";
+
+export type FlowCategory =
+  | "SIGN_UP"
+  | "SIGN_IN"
+  | "APPOINTMENT_BOOKING"
+  | "LEAD_GENERATION"
+  | "CONTACT_US"
+  | "CUSTOMER_SUPPORT"
+  | "SURVEY"
+  | "OTHER";
+
+export const FLOW_CATEGORIES: FlowCategory[] = [
+  "SIGN_UP",
+  "SIGN_IN",
+  "APPOINTMENT_BOOKING",
+  "LEAD_GENERATION",
+  "CONTACT_US",
+  "CUSTOMER_SUPPORT",
+  "SURVEY",
+  "OTHER",
+];
+
+/** Flow JSON validation error, shaped like Graph `validation_errors` */
+export interface FlowValidationError {
+  error: string;
+  error_type: "FLOW_JSON_ERROR" | "JSON_SCHEMA_ERROR";
+  message: string;
+  line_start: number;
+  line_end: number;
+  column_start: number;
+  column_end: number;
+  pointers?: Array<{ path: string }>;
+}
+
+export interface FlowPreview {
+  previewUrl: string;
+  expiresAt: number;
+}
+
+export interface WhatsAppFlow {
+  id: string;
+  wabaId: string;
+  name: string;
+  categories: FlowCategory[];
+  status: FlowStatus;
+  /** Raw flow.json as uploaded */
+  flowJson?: string;
+  jsonVersion?: string;
+  dataApiVersion?: string;
+  endpointUri?: string;
+  validationErrors: FlowValidationError[];
+  preview?: FlowPreview;
+  createdAt: number;
+  updatedAt: number;
+  publishedAt?: number;
+}
+
+// Preview links are valid for 30 days
+const PREVIEW_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const flows = new Map<string, WhatsAppFlow>();
+
+const generateFlowId = (): string =>
+  // Flow IDs are numeric strings, like other Graph object IDs
+  `${Date.now()}${Math.floor(1000 + Math.random() * 9000)}`;
+
+export const isFlowCategory = (value: unknown): value is FlowCategory =>
+  typeof value === "string" && FLOW_CATEGORIES.includes(value as FlowCategory);
+
+export const listFlows = (wabaId?: string): WhatsAppFlow[] =>
+  Array.from(flows.values()).filter((f) => !wabaId || f.wabaId === wabaId);
+
+export const getFlow = (id: string): WhatsAppFlow | undefined => flows.get(id);
+
+export const getFlowByName = (
+  name: string,
+  wabaId?: string
+): WhatsAppFlow | undefined =>
+  listFlows(wabaId).find((f) => f.name === name);
+
+export const createFlow = (input: {
+  wabaId: string;
+  name: string;
+  categories: FlowCategory[];
+  endpointUri?: string;
+}): WhatsAppFlow => {
+  const now = Date.now();
+  const flow: WhatsAppFlow = {
+    id: generateFlowId(),
+    wabaId: input.wabaId,
+    name: input.name,
+    categories: input.categories,
+    status: "DRAFT",
+    validationErrors: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (input.endpointUri) {
+    flow.endpointUri = input.endpointUri;
+  }
+  flows.set(flow.id, flow);
+  return flow;
+};
+
+export const updateFlowMetadata = (
+  id: string,
+  patch: { name?: string; categories?: FlowCategory[]; endpointUri?: string }
+): WhatsAppFlow | undefined => {
+  const flow = flows.get(id);
+  if (!flow) return undefined;
+
+  if (patch.name !== undefined) flow.name = patch.name;
+  if (patch.categories !== undefined) flow.categories = patch.categories;
+  if (patch.endpointUri !== undefined) {
+    if (patch.endpointUri) {
+      flow.endpointUri = patch.endpointUri;
+    } else {
+      delete flow.endpointUri;
+    }
+  }
+  flow.updatedAt = Date.now();
+  return flow;
+};
+
+export const setFlowJson = (
+  id: string,
+  input: {
+    flowJson: string;
+    validationErrors: FlowValidationError[];
+    jsonVersion?: string;
+    dataApiVersion?: string;
+  }
+): WhatsAppFlow | undefined => {
+  const flow = flows.get(id);
+  if (!flow) return undefined;
+
+  flow.flowJson = input.flowJson;
+  flow.validationErrors = input.validationErrors;
+  if (input.jsonVersion !== undefined) {
+    flow.jsonVersion = input.jsonVersion;
+  } else {
+    delete flow.jsonVersion;
+  }
+  if (input.dataApiVersion !== undefined) {
+    flow.dataApiVersion = input.dataApiVersion;
+  } else {
+    delete flow.dataApiVersion;
+  }
+  flow.updatedAt = Date.now();
+  return flow;
+};
+
+export const setFlowStatus = (
+  id: string,
+  status: FlowStatus
+): WhatsAppFlow | undefined => {
+  const flow = flows.get(id);
+  if (!flow) return undefined;
+
+  flow.status = status;
+  if (status === "PUBLISHED") {
+    flow.publishedAt = Date.now();
+  }
+  flow.updatedAt = Date.now();
+  return flow;
+};
+
+export const deleteFlow = (id: string): boolean => flows.delete(id);
+
+/** Returns the flow's preview link, creating a fresh one when asked or expired */
+export const getFlowPreview = (
+  id: string,
+  opts?: { invalidate?: boolean }
+): FlowPreview | undefined => {
+  const flow = flows.get(id);
+  if (!flow) return undefined;
+
+  const now = Date.now();
+  if (!flow.preview || opts?.invalidate || flow.preview.expiresAt <= now) {
+    const token = crypto.randomBytes(12).toString("hex");
+    flow.preview = {
+      previewUrl: `https://business.facebook.com/wa/manage/flows/${flow.id}/preview/?token=${token}`,
+      expiresAt: now + PREVIEW_TTL_MS,
+    };
+  }
+  return flow.preview;
+};
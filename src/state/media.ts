@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export interface StoredMedia {
+  id: string;
+  phoneId: string;
+  mimeType: string;
+  sha256: string;
+  fileSize: number;
+  filename?: string;
+  data: Buffer;
+  createdAt: number;
+}
+
+const mediaItems = new Map<string, StoredMedia>();
+
+let mediaSequence = 0;
+
+// Cloud API media IDs are long numeric strings; the counter keeps uploads in
+// the same millisecond apart, like message IDs
+const generateMediaId = (): string => {
+  mediaSequence = (mediaSequence + 1) % 1_000_000;
+  return `${Date.now()}${String(mediaSequence).padStart(6, "0")}`;
+};
+
+export const listMedia = (phoneId?: string): StoredMedia[] =>
+  Array.from(mediaItems.values()).filter(
+    (item) => !phoneId || item.phoneId === phoneId
+  );
+
+export const getMedia = (id: string): StoredMedia | undefined =>
+  mediaItems.get(id);
+
+export const storeMedia = (input: {
+  phoneId: string;
+  mimeType: string;
+  data: Buffer;
+  filename?: string;
+  /** Hash of `data` when the caller already has it */
+  sha256?: string;
+}): StoredMedia => {
+  const item: StoredMedia = {
+    id: generateMediaId(),
+    phoneId: input.phoneId,
+    mimeType: input.mimeType,
+    sha256:
+      input.sha256 ??
+      crypto.createHash("sha256").update(input.data).digest("hex"),
+    fileSize: input.data.length,
+    data: input.data,
+    createdAt: Date.now(),
+  };
+
+  if (input.filename !== undefined) {
+    item.filename = input.filename;
+  }
+
+  mediaItems.set(item.id, item);
+  return item;
+};
+
+export const deleteMedia = (id: string): boolean => mediaItems.delete(id);
+
+const localMediaDir = path.join(__dirname, "..", "..", "media");
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".aac": "audio/aac",
+  ".amr": "audio/amr",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".ogg": "audio/ogg",
+  ".txt": "text/plain",
+  ".pdf": "application/pdf",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".doc": "application/msword",
+  ".xls": "application/vnd.ms-excel",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".3gp": "video/3gpp",
+  ".mp4": "video/mp4",
+};
+
+export const mimeTypeForFilename = (filename: string): string =>
+  MIME_BY_EXTENSION[path.extname(filename).toLowerCase()] ??
+  "application/octet-stream";
+
+interface LocalMediaFile {
+  data: Buffer;
+  sha256: string;
+  mtimeMs: number;
+  size: number;
+}
+
+const localMediaFiles = new Map<string, LocalMediaFile>();
+
+// One read per file, shared by every media item created from it until the
+// file changes on disk
+const readLocalMediaFile = (filePath: string): LocalMediaFile | undefined => {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    return undefined;
+  }
+  if (!stat.isFile()) return undefined;
+
+  const cached = localMediaFiles.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached;
+  }
+  const data = fs.readFileSync(filePath);
+  const file: LocalMediaFile = {
+    data,
+    sha256: crypto.createHash("sha256").update(data).digest("hex"),
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+  };
+  localMediaFiles.set(filePath, file);
+  return file;
+};
+
+/**
+ * Registers a file from the local media/ directory as if a customer had sent
+ * it, so simulated inbound messages can reference it by media ID only.
+ */
+export const storeLocalMediaFile = (params: {
+  phoneId: string;
+  filename: string;
+}): StoredMedia | undefined => {
+  const filename = path.basename(params.filename);
+  const file = readLocalMediaFile(path.join(localMediaDir, filename));
+  if (!file) return undefined;
+
+  return storeMedia({
+    phoneId: params.phoneId,
+    mimeType: mimeTypeForFilename(filename),
+    data: file.data,
+    sha256: file.sha256,
+    filename,
+  });
+};
+
+// Download URLs are short-lived, like the lookaside URLs returned by Meta
+export const MEDIA_URL_TTL_MS = 5 * 60 * 1000;
+
+const urlSigningSecret = crypto.randomBytes(32).toString("hex");
+
+const signMediaUrl = (mediaId: string, expiresAt: number): string =>
+  crypto
+    .createHmac("sha256", urlSigningSecret)
+    .update(`${mediaId}:${expiresAt}`)
+    .digest("hex");
+
+export const createMediaDownloadUrl = (
+  media: StoredMedia,
+  baseUrl: string,
+  now: number = Date.now()
+): string => {
+  const expiresAt = Math.floor((now + MEDIA_URL_TTL_MS) / 1000);
+  const hash = signMediaUrl(media.id, expiresAt);
+  return `${baseUrl}/media-download/${media.id}?ext=${expiresAt}&hash=${hash}`;
+};
+
+export const verifyMediaDownloadUrl = (params: {
+  mediaId: string;
+  ext: unknown;
+  hash: unknown;
+  now?: number;
+}): "ok" | "invalid_signature" | "expired" => {
+  if (typeof params.ext !== "string" || typeof params.hash !== "string") {
+    return "invalid_signature";
+  }
+  const expiresAt = Number(params.ext);
+  if (!Number.isFinite(expiresAt)) return "invalid_signature";
+
+  const expected = Buffer.from(signMediaUrl(params.mediaId, expiresAt));
+  const provided = Buffer.from(params.hash);
+  if (
+    expected.length !== provided.length ||
+    !crypto.timingSafeEqual(expected, provided)
+  ) {
+    return "invalid_signature";
+  }
+
+  const now = params.now ?? Date.now();
+  if (now > expiresAt * 1000) return "expired";
+  return "ok";
+};
@@ -1,4 +1,10 @@
 import { TemplateCategory } from "./templates";
+import {
+  BusinessPortfolio,
+  getBusinessForPhone,
+  listBusinessPhoneIds,
+  upsertBusiness,
+} from "./businesses";
 
 export type MessagingLimitTier =
   | "TIER_250"
@@ -9,13 +15,41 @@ export type MessagingLimitTier =
 
 export type ConversationCategory =
   | TemplateCategory
+  | "SERVICE"
   | "UNKNOWN";
 
+export type PricingModel = "PMP";
+
+export type PricingType =
+  | "regular"
+  | "free_customer_service"
+  | "free_entry_point";
+
+/**
+ * Per-message pricing (PMP) details, shaped like the `pricing` object in
+ * status webhooks.
+ */
+export interface MessagePricing {
+  billable: boolean;
+  pricing_model: PricingModel;
+  category: string;
+  type: PricingType;
+}
+
+/**
+ * `user` sends are replies inside an open customer service window; only
+ * `business` sends count toward the unique-recipient limit.
+ */
+export type ConversationInitiator = "business" | "user";
+
 export interface SendEvent {
+  messageId?: string;
   to: string;
   category: ConversationCategory;
+  initiator: ConversationInitiator;
   timestamp: number;
   costUsd: number;
+  pricing: MessagePricing;
 }
 
 export interface MessagingLimitState {
@@ -23,19 +57,35 @@ export interface MessagingLimitState {
   tier: MessagingLimitTier;
   windowMs: number;
   sends: SendEvent[];
+  /** Business-initiated recipients over the last 7 days, used for tier upgrades */
+  recipientHistory: Array<{ to: string; timestamp: number }>;
+  /** Move up a tier automatically when enough capacity is used */
+  autoUpgrade: boolean;
+  tierUpdatedAt: number;
   totalCostUsd: number;
 }
 
 const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const UPGRADE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
 
-// Very rough, sandbox-only per-conversation cost approximations in USD
-const CATEGORY_COST: Record<ConversationCategory, number> = {
-  MARKETING: 0.05,
-  UTILITY: 0.03,
-  AUTHENTICATION: 0.02,
-  UNKNOWN: 0.025,
+// Very rough, sandbox-only per-message rate approximations in USD
+const PER_MESSAGE_RATE_USD: Record<ConversationCategory, number> = {
+  MARKETING: 0.025,
+  UTILITY: 0.004,
+  AUTHENTICATION: 0.004,
+  SERVICE: 0,
+  UNKNOWN: 0.004,
 };
 
+/** Tiers from lowest to highest capacity */
+export const MESSAGING_LIMIT_TIERS: MessagingLimitTier[] = [
+  "TIER_250",
+  "TIER_1K",
+  "TIER_10K",
+  "TIER_100K",
+  "TIER_UNLIMITED",
+];
+
 const TIER_LIMITS: Record<MessagingLimitTier, number> = {
   TIER_250: 250,
   TIER_1K: 1000,
@@ -45,6 +95,8 @@ const TIER_LIMITS: Record<MessagingLimitTier, number> = {
 };
 
 const states = new Map<string, MessagingLimitState>();
+const sendsByMessageId = new Map<string, SendEvent>();
+const MAX_TRACKED_MESSAGES = 5000;
 
 const getOrCreateState = (phoneId: string): MessagingLimitState => {
   const existing = states.get(phoneId);
@@ -55,15 +107,94 @@ const getOrCreateState = (phoneId: string): MessagingLimitState => {
     tier: "TIER_1K",
     windowMs: DEFAULT_WINDOW_MS,
     sends: [],
+    recipientHistory: [],
+    autoUpgrade: false,
+    tierUpdatedAt: Date.now(),
     totalCostUsd: 0,
   };
   states.set(phoneId, fresh);
   return fresh;
 };
 
+export type MessagingLimitScope = "phone" | "portfolio";
+
+/** The business whose shared tier limits the phone, in `portfolio` mode only */
+export const getLimitingBusiness = (
+  phoneId: string
+): BusinessPortfolio | undefined => {
+  const business = getBusinessForPhone(phoneId);
+  return business?.messagingLimitMode === "portfolio" ? business : undefined;
+};
+
+// Numbers whose sends count toward the same limit as the phone's
+const getLimitScopePhoneIds = (phoneId: string): string[] => {
+  const business = getLimitingBusiness(phoneId);
+  return business ? listBusinessPhoneIds(business) : [phoneId];
+};
+
+interface WindowUsage {
+  scope: MessagingLimitScope;
+  businessId?: string;
+  tier: MessagingLimitTier;
+  /** Business-initiated recipients, the ones the limit applies to */
+  recipients: Set<string>;
+  userRecipients: Set<string>;
+  businessSends: number;
+  userSends: number;
+  limit: number;
+}
+
+/**
+ * Recipients in the current window, counted for the phone alone or across
+ * every number of its business portfolio in `portfolio` mode.
+ */
+const getWindowUsage = (phoneId: string, now: number): WindowUsage => {
+  const state = getOrCreateState(phoneId);
+  const business = getLimitingBusiness(phoneId);
+  const phoneIds = getLimitScopePhoneIds(phoneId);
+
+  const recipients = new Set<string>();
+  const userRecipients = new Set<string>();
+  let businessSends = 0;
+  let userSends = 0;
+  for (const id of phoneIds) {
+    const phoneState = states.get(id);
+    if (!phoneState) continue;
+    // prune old events
+    phoneState.sends = phoneState.sends.filter(
+      (e) => e.timestamp >= now - phoneState.windowMs
+    );
+    for (const event of phoneState.sends) {
+      if (event.initiator === "user") {
+        userRecipients.add(event.to);
+        userSends += 1;
+      } else {
+        recipients.add(event.to);
+        businessSends += 1;
+      }
+    }
+  }
+
+  const tier = business ? business.tier : state.tier;
+  const usage: WindowUsage = {
+    scope: business ? "portfolio" : "phone",
+    tier,
+    recipients,
+    userRecipients,
+    businessSends,
+    userSends,
+    limit: TIER_LIMITS[tier],
+  };
+  if (business) usage.businessId = business.id;
+  return usage;
+};
+
 export interface MessagingLimitEvaluation {
   allowed: boolean;
   reason?: string;
+  initiator: ConversationInitiator;
+  scope: MessagingLimitScope;
+  businessId?: string;
   tier: MessagingLimitTier;
   windowUniqueRecipients: number;
   limitUniqueRecipients: number;
@@ -72,34 +203,91 @@ export interface MessagingLimitEvaluation {
 export const evaluateMessagingLimit = (params: {
   phoneId: string;
   to: string;
+  /** Replies inside an open customer service window are never limited */
+  inServiceWindow?: boolean;
   now?: number;
 }): MessagingLimitEvaluation => {
   const now = params.now ?? Date.now();
-  const state = getOrCreateState(params.phoneId);
-  const windowStart = now - state.windowMs;
+  const usage = getWindowUsage(params.phoneId, now);
+  const initiator: ConversationInitiator = params.inServiceWindow
+    ? "user"
+    : "business";
+
+  const evaluation: MessagingLimitEvaluation = {
+    allowed: true,
+    initiator,
+    scope: usage.scope,
+    tier: usage.tier,
+    windowUniqueRecipients: usage.recipients.size,
+    limitUniqueRecipients: usage.limit,
+  };
+  if (usage.businessId !== undefined) {
+    evaluation.businessId = usage.businessId;
+  }
+
+  if (
+    initiator === "business" &&
+    !usage.recipients.has(params.to) &&
+    usage.recipients.size >= usage.limit
+  ) {
+    evaluation.allowed = false;
+    evaluation.reason =
+      usage.scope === "portfolio"
+        ? "messaging_limit_reached_for_this_business_portfolio_in_current_24h_window"
+        : "messaging_limit_reached_for_this_phone_number_in_current_24h_window";
+  }
 
-  // prune old events
-  state.sends = state.sends.filter((e) => e.timestamp >= windowStart);
+  return evaluation;
+};
 
-  const uniqueRecipients = new Set(state.sends.map((e) => e.to));
-  const limit = TIER_LIMITS[state.tier];
+/**
+ * Applies the per-message pricing rules: everything is free inside a free
+ * entry point window, service messages are always free, and utility templates
+ * are free while a customer service window is open. Templates whose category
+ * couldn't be resolved are priced as utility, since PMP webhooks only carry
+ * real categories.
+ */
+export const computeMessagePricing = (params: {
+  category: ConversationCategory;
+  inServiceWindow: boolean;
+  inFreeEntryPoint?: boolean;
+}): MessagePricing => {
+  const resolved =
+    params.category === "UNKNOWN" ? "UTILITY" : params.category;
+  const category = resolved.toLowerCase();
 
-  if (!uniqueRecipients.has(params.to) && uniqueRecipients.size >= limit) {
+  if (params.inFreeEntryPoint) {
     return {
-      allowed: false,
-      reason:
-        "messaging_limit_reached_for_this_phone_number_in_current_24h_window",
-      tier: state.tier,
-      windowUniqueRecipients: uniqueRecipients.size,
-      limitUniqueRecipients: limit,
+      billable: false,
+      pricing_model: "PMP",
+      category,
+      type: "free_entry_point",
+    };
+  }
+
+  if (resolved === "SERVICE") {
+    return {
+      billable: false,
+      pricing_model: "PMP",
+      category,
+      type: "free_customer_service",
+    };
+  }
+
+  if (resolved === "UTILITY" && params.inServiceWindow) {
+    return {
+      billable: false,
+      pricing_model: "PMP",
+      category,
+      type: "free_customer_service",
     };
   }
 
   return {
-    allowed: true,
-    tier: state.tier,
-    windowUniqueRecipients: uniqueRecipients.size,
-    limitUniqueRecipients: limit,
+    billable: true,
+    pricing_model: "PMP",
+    category,
+    type: "regular",
   };
 };
 
@@ -112,20 +300,49 @@ export const registerSend = (params: {
   phoneId: string;
   to: string;
   category: ConversationCategory;
+  messageId?: string;
+  inServiceWindow?: boolean;
+  inFreeEntryPoint?: boolean;
   now?: number;
 }): RegisterSendResult => {
   const now = params.now ?? Date.now();
   const state = getOrCreateState(params.phoneId);
 
-  const cost = CATEGORY_COST[params.category] ?? CATEGORY_COST.UNKNOWN;
+  const pricing = computeMessagePricing({
+    category: params.category,
+    inServiceWindow: params.inServiceWindow ?? false,
+    inFreeEntryPoint: params.inFreeEntryPoint ?? false,
+  });
+  const rate =
+    PER_MESSAGE_RATE_USD[params.category] ?? PER_MESSAGE_RATE_USD.UNKNOWN;
+  const cost = pricing.billable ? rate : 0;
+  const initiator: ConversationInitiator = params.inServiceWindow
+    ? "user"
+    : "business";
   const event: SendEvent = {
     to: params.to,
     category: params.category,
+    initiator,
     timestamp: now,
     costUsd: cost,
+    pricing,
   };
+  if (params.messageId !== undefined) {
+    event.messageId = params.messageId;
+    sendsByMessageId.set(params.messageId, event);
+    if (sendsByMessageId.size > MAX_TRACKED_MESSAGES) {
+      const oldest = sendsByMessageId.keys().next().value;
+      if (oldest !== undefined) sendsByMessageId.delete(oldest);
+    }
+  }
 
   state.sends.push(event);
+  state.recipientHistory = state.recipientHistory.filter(
+    (r) => r.timestamp >= now - UPGRADE_WINDOW_MS
+  );
+  if (initiator === "business") {
+    state.recipientHistory.push({ to: params.to, timestamp: now });
+  }
   state.totalCostUsd += cost;
   states.set(state.phoneId, state);
 
@@ -134,10 +351,24 @@ export const registerSend = (params: {
 
 export interface MessagingLimitSummary {
   phoneId: string;
+  scope: MessagingLimitScope;
+  businessId?: string;
+  /** Effective tier: the business tier in `portfolio` mode */
   tier: MessagingLimitTier;
+  /** The phone's own tier, used in `phone` mode */
+  phoneTier: MessagingLimitTier;
   windowMs: number;
+  /** Business-initiated unique recipients, counted toward the limit */
   windowUniqueRecipients: number;
   limitUniqueRecipients: number;
+  windowBusinessInitiatedSends: number;
+  /** Replies inside customer service windows, not limited */
+  windowUserInitiatedUniqueRecipients: number;
+  windowUserInitiatedSends: number;
+  /** Business-initiated unique recipients over the 7-day upgrade window */
+  upgradeWindowUniqueRecipients: number;
+  autoUpgrade: boolean;
+  tierUpdatedAt: number;
   totalCostUsd: number;
 }
 
@@ -146,16 +377,26 @@ export const getMessagingSummaryForPhone = (
   now: number = Date.now()
 ): MessagingLimitSummary => {
   const state = getOrCreateState(phoneId);
-  const windowStart = now - state.windowMs;
-  const recent = state.sends.filter((e) => e.timestamp >= windowStart);
-  const uniqueRecipients = new Set(recent.map((e) => e.to));
+  const usage = getWindowUsage(phoneId, now);
 
   return {
     phoneId,
-    tier: state.tier,
+    scope: usage.scope,
+    ...(usage.businessId !== undefined ? { businessId: usage.businessId } : {}),
+    tier: usage.tier,
+    phoneTier: state.tier,
     windowMs: state.windowMs,
-    windowUniqueRecipients: uniqueRecipients.size,
-    limitUniqueRecipients: TIER_LIMITS[state.tier],
+    windowUniqueRecipients: usage.recipients.size,
+    limitUniqueRecipients: usage.limit,
+    windowBusinessInitiatedSends: usage.businessSends,
+    windowUserInitiatedUniqueRecipients: usage.userRecipients.size,
+    windowUserInitiatedSends: usage.userSends,
+    upgradeWindowUniqueRecipients: countUniqueRecipientsSince(
+      phoneId,
+      now - UPGRADE_WINDOW_MS
+    ),
+    autoUpgrade: state.autoUpgrade,
+    tierUpdatedAt: state.tierUpdatedAt,
     totalCostUsd: state.totalCostUsd,
   };
 };
@@ -195,8 +436,67 @@ export const listSendEvents = (opts?: {
   return events.sort((a, b) => b.timestamp - a.timestamp);
 };
 
+export const getSendEventByMessageId = (
+  messageId: string
+): SendEvent | undefined => sendsByMessageId.get(messageId);
+
+export const getMessagingTier = (phoneId: string): MessagingLimitTier =>
+  getOrCreateState(phoneId).tier;
+
+/** The tier in force: the business tier in `portfolio` mode */
+export const getEffectiveMessagingTier = (
+  phoneId: string
+): MessagingLimitTier =>
+  getLimitingBusiness(phoneId)?.tier ?? getMessagingTier(phoneId);
+
+export const getTierLimit = (tier: MessagingLimitTier): number =>
+  TIER_LIMITS[tier];
+
+export const isMessagingLimitTier = (
+  value: unknown
+): value is MessagingLimitTier =>
+  typeof value === "string" &&
+  MESSAGING_LIMIT_TIERS.includes(value as MessagingLimitTier);
+
+/**
+ * Business-initiated unique recipients since `since`, across the whole
+ * portfolio in `portfolio` mode.
+ */
+export const countUniqueRecipientsSince = (
+  phoneId: string,
+  since: number
+): number => {
+  const recipients = new Set<string>();
+  for (const id of getLimitScopePhoneIds(phoneId)) {
+    for (const r of states.get(id)?.recipientHistory ?? []) {
+      if (r.timestamp >= since) recipients.add(r.to);
+    }
+  }
+  return recipients.size;
+};
+
 export const setMessagingTier = (phoneId: string, tier: MessagingLimitTier) => {
   const state = getOrCreateState(phoneId);
   state.tier = tier;
+  state.tierUpdatedAt = Date.now();
+  states.set(phoneId, state);
+};
+
+/** Sets the tier in force: the business tier in `portfolio` mode */
+export const setEffectiveMessagingTier = (
+  phoneId: string,
+  tier: MessagingLimitTier
+) => {
+  const business = getLimitingBusiness(phoneId);
+  if (business) {
+    upsertBusiness({ id: business.id, tier });
+    return;
+  }
+  setMessagingTier(phoneId, tier);
+};
+
+export const setMessagingAutoUpgrade = (phoneId: string, enabled: boolean) => {
+  const state = getOrCreateState(phoneId);
+  state.autoUpgrade = enabled;
   states.set(phoneId, state);
 };
@@ -0,0 +1,158 @@
+export type OrderStatus =
+  | "pending"
+  | "processing"
+  | "partially-shipped"
+  | "shipped"
+  | "completed"
+  | "canceled";
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "processing",
+  "partially-shipped",
+  "shipped",
+  "completed",
+  "canceled",
+];
+
+export type PaymentStatus = "pending" | "captured" | "failed";
+
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  "pending",
+  "captured",
+  "failed",
+];
+
+/** Amounts are integers scaled by `offset`, e.g. { value: 21000, offset: 100 } */
+export interface PaymentAmount {
+  value: number;
+  offset: number;
+}
+
+export interface PaymentOrder {
+  referenceId: string;
+  phoneId: string;
+  /** Customer the order_details message was sent to */
+  to: string;
+  /** ID of the order_details message, used for payment status webhooks */
+  messageId: string;
+  currency: string;
+  totalAmount: PaymentAmount;
+  /** Payment method type from payment_settings (pix_dynamic_code, upi, ...) */
+  paymentMethod?: string;
+  status: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  history: Array<{
+    kind: "order" | "payment";
+    status: string;
+    at: number;
+  }>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Allowed order_status updates; completed and canceled are final
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: [
+    "processing",
+    "partially-shipped",
+    "shipped",
+    "completed",
+    "canceled",
+  ],
+  processing: ["partially-shipped", "shipped", "completed", "canceled"],
+  "partially-shipped": ["shipped", "completed", "canceled"],
+  shipped: ["completed"],
+  completed: [],
+  canceled: [],
+};
+
+const orders = new Map<string, PaymentOrder>();
+
+const orderKey = (phoneId: string, referenceId: string): string =>
+  `${phoneId}:${referenceId}`;
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === "string" && ORDER_STATUSES.includes(value as OrderStatus);
+
+export const isPaymentStatus = (value: unknown): value is PaymentStatus =>
+  typeof value === "string" &&
+  PAYMENT_STATUSES.includes(value as PaymentStatus);
+
+export const canTransitionOrder = (
+  from: OrderStatus,
+  to: OrderStatus
+): boolean => ORDER_TRANSITIONS[from].includes(to);
+
+/** Completed and canceled orders are closed and free their reference ID */
+export const isOrderOpen = (order: PaymentOrder): boolean =>
+  ORDER_TRANSITIONS[order.status].length > 0;
+
+export const listOrders = (phoneId?: string): PaymentOrder[] =>
+  Array.from(orders.values()).filter((o) => !phoneId || o.phoneId === phoneId);
+
+export const getOrder = (
+  phoneId: string,
+  referenceId: string
+): PaymentOrder | undefined => orders.get(orderKey(phoneId, referenceId));
+
+/** Finds an order by reference ID when the phone number isn't known */
+export const findOrderByReference = (
+  referenceId: string
+): PaymentOrder | undefined =>
+  listOrders().find((o) => o.referenceId === referenceId);
+
+/**
+ * Opens an order. Callers reject reference IDs of open orders first; a closed
+ * order's reference ID can be reused and the new order replaces it.
+ */
+export const createOrder = (input: {
+  referenceId: string;
+  phoneId: string;
+  to: string;
+  messageId: string;
+  currency: string;
+  totalAmount: PaymentAmount;
+  paymentMethod?: string;
+}): PaymentOrder => {
+  const now = Date.now();
+  const order: PaymentOrder = {
+    referenceId: input.referenceId,
+    phoneId: input.phoneId,
+    to: input.to,
+    messageId: input.messageId,
+    currency: input.currency,
+    totalAmount: input.totalAmount,
+    status: "pending",
+    history: [{ kind: "order", status: "pending", at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (input.paymentMethod) {
+    order.paymentMethod = input.paymentMethod;
+  }
+  orders.set(orderKey(input.phoneId, input.referenceId), order);
+  return order;
+};
+
+export const setOrderStatus = (
+  order: PaymentOrder,
+  status: OrderStatus
+): PaymentOrder => {
+  const now = Date.now();
+  order.status = status;
+  order.history.push({ kind: "order", status, at: now });
+  order.updatedAt = now;
+  return order;
+};
+
+export const setOrderPaymentStatus = (
+  order: PaymentOrder,
+  status: PaymentStatus
+): PaymentOrder => {
+  const now = Date.now();
+  order.paymentStatus = status;
+  order.history.push({ kind: "payment", status, at: now });
+  order.updatedAt = now;
+  return order;
+};
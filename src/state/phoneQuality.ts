@@ -0,0 +1,152 @@
+export type PhoneQualitySignalType = "send" | "read" | "block" | "report";
+
+export interface PhoneQualitySignal {
+  type: PhoneQualitySignalType;
+  timestamp: number;
+}
+
+export interface PhoneQualityConfig {
+  phoneId: string;
+  /** Rolling window the rating is computed over */
+  windowMs: number;
+  /** (blocks + reports) / sends that turns the rating YELLOW */
+  yellowNegativeRate: number;
+  /** (blocks + reports) / sends that turns the rating RED */
+  redNegativeRate: number;
+  /** reads / sends below which the rating turns YELLOW */
+  lowReadRate: number;
+  /** Sends needed before the read rate is taken into account */
+  minSendsForReadRate: number;
+  /** Step the messaging limit tier down when the rating turns RED */
+  downgradeOnRed: boolean;
+}
+
+export interface PhoneQualityStats {
+  sends: number;
+  reads: number;
+  blocks: number;
+  reports: number;
+  negativeRate: number;
+  readRate: number | null;
+}
+
+const MAX_SIGNALS_PER_PHONE = 10_000;
+/** Upper bound for `count` in one recordPhoneQualitySignal call */
+export const MAX_SIGNALS_PER_CALL = 1_000;
+
+const configs = new Map<string, PhoneQualityConfig>();
+const signals = new Map<string, PhoneQualitySignal[]>();
+
+const clampRate = (value: unknown, fallback: number): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(1, Math.max(0, value));
+};
+
+export const getPhoneQualityConfig = (phoneId: string): PhoneQualityConfig => {
+  const existing = configs.get(phoneId);
+  if (existing) return existing;
+
+  const fresh: PhoneQualityConfig = {
+    phoneId,
+    windowMs: 7 * 24 * 60 * 60 * 1000,
+    yellowNegativeRate: 0.02,
+    redNegativeRate: 0.05,
+    lowReadRate: 0.2,
+    minSendsForReadRate: 20,
+    downgradeOnRed: true,
+  };
+  configs.set(phoneId, fresh);
+  return fresh;
+};
+
+export const updatePhoneQualityConfig = (
+  phoneId: string,
+  patch: Partial<Omit<PhoneQualityConfig, "phoneId">>
+): PhoneQualityConfig => {
+  const config = getPhoneQualityConfig(phoneId);
+
+  if (typeof patch.windowMs === "number" && patch.windowMs > 0) {
+    config.windowMs = Math.floor(patch.windowMs);
+  }
+  if (patch.yellowNegativeRate !== undefined) {
+    config.yellowNegativeRate = clampRate(
+      patch.yellowNegativeRate,
+      config.yellowNegativeRate
+    );
+  }
+  if (patch.redNegativeRate !== undefined) {
+    config.redNegativeRate = clampRate(
+      patch.redNegativeRate,
+      config.redNegativeRate
+    );
+  }
+  if (patch.lowReadRate !== undefined) {
+    config.lowReadRate = clampRate(patch.lowReadRate, config.lowReadRate);
+  }
+  if (
+    typeof patch.minSendsForReadRate === "number" &&
+    patch.minSendsForReadRate >= 0
+  ) {
+    config.minSendsForReadRate = Math.floor(patch.minSendsForReadRate);
+  }
+  if (typeof patch.downgradeOnRed === "boolean") {
+    config.downgradeOnRed = patch.downgradeOnRed;
+  }
+
+  return config;
+};
+
+export const recordPhoneQualitySignal = (params: {
+  phoneId: string;
+  type: PhoneQualitySignalType;
+  count?: number;
+  now?: number;
+}): void => {
+  const now = params.now ?? Date.now();
+  const list = signals.get(params.phoneId) ?? [];
+  const count = Math.min(
+    MAX_SIGNALS_PER_CALL,
+    Math.max(1, params.count ?? 1)
+  );
+  for (let i = 0; i < count; i += 1) {
+    list.push({ type: params.type, timestamp: now });
+  }
+  if (list.length > MAX_SIGNALS_PER_PHONE) {
+    list.splice(0, list.length - MAX_SIGNALS_PER_PHONE);
+  }
+  signals.set(params.phoneId, list);
+};
+
+export const getPhoneQualityStats = (
+  phoneId: string,
+  now: number = Date.now()
+): PhoneQualityStats => {
+  const config = getPhoneQualityConfig(phoneId);
+  const windowStart = now - config.windowMs;
+
+  // prune signals that left the rolling window
+  const recent = (signals.get(phoneId) ?? []).filter(
+    (s) => s.timestamp >= windowStart
+  );
+  signals.set(phoneId, recent);
+
+  const count = (type: PhoneQualitySignalType): number =>
+    recent.filter((s) => s.type === type).length;
+  const sends = count("send");
+  const reads = count("read");
+  const blocks = count("block");
+  const reports = count("report");
+
+  return {
+    sends,
+    reads,
+    blocks,
+    reports,
+    negativeRate: (blocks + reports) / Math.max(sends, 1),
+    readRate: sends > 0 ? Math.min(1, reads / sends) : null,
+  };
+};
+
+export const clearPhoneQualitySignals = (phoneId: string): void => {
+  signals.delete(phoneId);
+};
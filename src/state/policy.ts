@@ -5,6 +5,8 @@ export interface ContactPolicy {
   label?: string;
   status: ContactStatus;
   note?: string;
+  /** Business phone numbers that blocked this user via `block_users` */
+  blockedByPhoneIds?: string[];
   updatedAt: number;
 }
 
@@ -50,12 +52,61 @@ export const upsertContactPolicy = (input: {
     policy.note = note;
   }
 
+  if (existing?.blockedByPhoneIds?.length) {
+    policy.blockedByPhoneIds = existing.blockedByPhoneIds;
+  }
+
   contacts.set(input.waId, policy);
   return policy;
 };
 
-export const evaluatePolicyForWaId = (waId: string): PolicyEvaluation => {
+/** Blocks a user for one business phone number, like Graph `block_users` */
+export const blockUserForPhone = (
+  waId: string,
+  phoneId: string
+): ContactPolicy => {
+  const policy = upsertContactPolicy({ waId });
+  const blockedBy = new Set(policy.blockedByPhoneIds ?? []);
+  blockedBy.add(phoneId);
+  policy.blockedByPhoneIds = Array.from(blockedBy);
+  return policy;
+};
+
+export const unblockUserForPhone = (waId: string, phoneId: string): boolean => {
+  const policy = contacts.get(waId);
+  if (!policy?.blockedByPhoneIds?.includes(phoneId)) return false;
+
+  const remaining = policy.blockedByPhoneIds.filter((id) => id !== phoneId);
+  if (remaining.length > 0) {
+    policy.blockedByPhoneIds = remaining;
+  } else {
+    delete policy.blockedByPhoneIds;
+  }
+  policy.updatedAt = Date.now();
+  return true;
+};
+
+export const listUsersBlockedByPhone = (phoneId: string): ContactPolicy[] =>
+  listContactPolicies().filter((c) => c.blockedByPhoneIds?.includes(phoneId));
+
+export const isUserBlockedByPhone = (waId: string, phoneId: string): boolean =>
+  contacts.get(waId)?.blockedByPhoneIds?.includes(phoneId) ?? false;
+
+export const evaluatePolicyForWaId = (
+  waId: string,
+  opts?: { phoneId?: string }
+): PolicyEvaluation => {
   const contact = contacts.get(waId);
+  if (contact && opts?.phoneId && isUserBlockedByPhone(waId, opts.phoneId)) {
+    return {
+      waId,
+      status: "blocked",
+      allowed: false,
+      reason: "user_blocked_by_business_phone_number",
+      contact,
+    };
+  }
+
   if (!contact) {
     return {
       waId,
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+export type QrImageFormat = "PNG" | "SVG";
+
+export const QR_IMAGE_FORMATS: QrImageFormat[] = ["PNG", "SVG"];
+
+// Prefilled messages are capped at 140 characters
+export const MAX_PREFILLED_MESSAGE_LENGTH = 140;
+
+/** A `message_qrdls` entry: a QR code / wa.me short link with a prefilled message */
+export interface PrefilledMessageQrCode {
+  code: string;
+  phoneId: string;
+  prefilledMessage: string;
+  /** Image format requested with generate_qr_image */
+  imageFormat?: QrImageFormat;
+  scans: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const codes = new Map<string, PrefilledMessageQrCode>();
+
+const CODE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+const generateCode = (): string => {
+  let code = "";
+  do {
+    // Codes are 14 uppercase letters and digits, e.g. 4O4YGZEG3RIVE1
+    code = Array.from(
+      crypto.randomBytes(14),
+      (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]
+    ).join("");
+  } while (codes.has(code));
+  return code;
+};
+
+export const isQrImageFormat = (value: unknown): value is QrImageFormat =>
+  typeof value === "string" && QR_IMAGE_FORMATS.includes(value as QrImageFormat);
+
+export const getDeepLinkUrl = (code: string): string =>
+  `https://wa.me/message/${code}`;
+
+export const listQrCodes = (phoneId: string): PrefilledMessageQrCode[] =>
+  Array.from(codes.values()).filter((c) => c.phoneId === phoneId);
+
+/** Looks a code up across all phone numbers, as a scan would */
+export const findQrCode = (code: string): PrefilledMessageQrCode | undefined =>
+  codes.get(code.toUpperCase());
+
+export const getQrCode = (
+  phoneId: string,
+  code: string
+): PrefilledMessageQrCode | undefined => {
+  const qr = findQrCode(code);
+  return qr && qr.phoneId === phoneId ? qr : undefined;
+};
+
+export const createQrCode = (input: {
+  phoneId: string;
+  prefilledMessage: string;
+  imageFormat?: QrImageFormat;
+}): PrefilledMessageQrCode => {
+  const now = Date.now();
+  const qr: PrefilledMessageQrCode = {
+    code: generateCode(),
+    phoneId: input.phoneId,
+    prefilledMessage: input.prefilledMessage,
+    scans: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (input.imageFormat) {
+    qr.imageFormat = input.imageFormat;
+  }
+  codes.set(qr.code, qr);
+  return qr;
+};
+
+export const updateQrCode = (
+  qr: PrefilledMessageQrCode,
+  patch: { prefilledMessage: string; imageFormat?: QrImageFormat }
+): PrefilledMessageQrCode => {
+  qr.prefilledMessage = patch.prefilledMessage;
+  if (patch.imageFormat) {
+    qr.imageFormat = patch.imageFormat;
+  }
+  qr.updatedAt = Date.now();
+  return qr;
+};
+
+export const recordQrScan = (
+  qr: PrefilledMessageQrCode
+): PrefilledMessageQrCode => {
+  qr.scans += 1;
+  return qr;
+};
+
+export const deleteQrCode = (phoneId: string, code: string): boolean => {
+  const qr = getQrCode(phoneId, code);
+  return qr ? codes.delete(qr.code) : false;
+};
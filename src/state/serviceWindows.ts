@@ -0,0 +1,191 @@
+export type ServiceWindowSource = "inbound" | "override";
+
+export interface CustomerServiceWindow {
+  phoneId: string;
+  waId: string;
+  lastInboundAt: number;
+  expiresAt: number;
+  source: ServiceWindowSource;
+  /** Last inbound message that came from a Click-to-WhatsApp ad */
+  referralAt?: number;
+  /**
+   * End of the 72h free entry point window, opened by a business reply within
+   * 24h of an ad referral
+   */
+  freeEntryPointExpiresAt?: number;
+  updatedAt: number;
+}
+
+export interface ServiceWindowEvaluation {
+  phoneId: string;
+  waId: string;
+  open: boolean;
+  lastInboundAt: number | null;
+  expiresAt: number | null;
+  remainingMs: number;
+  /** All sends are free while a free entry point window is open */
+  freeEntryPointOpen: boolean;
+  freeEntryPointExpiresAt: number | null;
+  window?: CustomerServiceWindow;
+}
+
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const FREE_ENTRY_POINT_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+const windows = new Map<string, CustomerServiceWindow>();
+
+const getWindowKey = (phoneId: string, waId: string): string =>
+  `${phoneId}__${waId}`;
+
+// Later messages without a referral keep the pending referral and the free
+// entry point window running
+const carryFreeEntryPoint = (
+  window: CustomerServiceWindow,
+  previous: CustomerServiceWindow | undefined
+): CustomerServiceWindow => {
+  if (previous?.referralAt !== undefined) {
+    window.referralAt = previous.referralAt;
+  }
+  if (previous?.freeEntryPointExpiresAt !== undefined) {
+    window.freeEntryPointExpiresAt = previous.freeEntryPointExpiresAt;
+  }
+  return window;
+};
+
+/**
+ * Opens (or refreshes) the 24h window for an inbound message. Messages from a
+ * Click-to-WhatsApp ad (`referral`) make the next business reply within 24h
+ * open a free entry point window, see `recordBusinessReply`.
+ */
+export const recordInboundMessage = (params: {
+  phoneId: string;
+  waId: string;
+  referral?: boolean;
+  now?: number;
+}): CustomerServiceWindow => {
+  const now = params.now ?? Date.now();
+  const key = getWindowKey(params.phoneId, params.waId);
+  const window = carryFreeEntryPoint(
+    {
+      phoneId: params.phoneId,
+      waId: params.waId,
+      lastInboundAt: now,
+      expiresAt: now + SERVICE_WINDOW_MS,
+      source: "inbound",
+      updatedAt: now,
+    },
+    windows.get(key)
+  );
+  if (params.referral) {
+    window.referralAt = now;
+  }
+  windows.set(key, window);
+  return window;
+};
+
+/**
+ * Called right before a send is priced. A reply inside the customer service
+ * window, within 24h of an ad referral, opens the 72h free entry point
+ * window; a referral that went unanswered for 24h no longer does.
+ */
+export const recordBusinessReply = (params: {
+  phoneId: string;
+  waId: string;
+  now?: number;
+}): ServiceWindowEvaluation => {
+  const now = params.now ?? Date.now();
+  const window = windows.get(getWindowKey(params.phoneId, params.waId));
+  if (
+    window?.referralAt !== undefined &&
+    window.expiresAt > now &&
+    window.referralAt + SERVICE_WINDOW_MS > now
+  ) {
+    // Only the first reply to a referral starts the 72h
+    delete window.referralAt;
+    window.freeEntryPointExpiresAt = now + FREE_ENTRY_POINT_WINDOW_MS;
+    window.updatedAt = now;
+  }
+  return evaluateServiceWindow({ ...params, now });
+};
+
+export const getServiceWindow = (
+  phoneId: string,
+  waId: string
+): CustomerServiceWindow | undefined =>
+  windows.get(getWindowKey(phoneId, waId));
+
+export const evaluateServiceWindow = (params: {
+  phoneId: string;
+  waId: string;
+  now?: number;
+}): ServiceWindowEvaluation => {
+  const now = params.now ?? Date.now();
+  const window = windows.get(getWindowKey(params.phoneId, params.waId));
+  if (!window) {
+    return {
+      phoneId: params.phoneId,
+      waId: params.waId,
+      open: false,
+      lastInboundAt: null,
+      expiresAt: null,
+      remainingMs: 0,
+      freeEntryPointOpen: false,
+      freeEntryPointExpiresAt: null,
+    };
+  }
+
+  const open = window.expiresAt > now;
+  return {
+    phoneId: params.phoneId,
+    waId: params.waId,
+    open,
+    lastInboundAt: window.lastInboundAt,
+    expiresAt: window.expiresAt,
+    remainingMs: open ? window.expiresAt - now : 0,
+    freeEntryPointOpen: (window.freeEntryPointExpiresAt ?? 0) > now,
+    freeEntryPointExpiresAt: window.freeEntryPointExpiresAt ?? null,
+    window,
+  };
+};
+
+export const listServiceWindows = (opts?: {
+  phoneId?: string;
+  now?: number;
+}): ServiceWindowEvaluation[] => {
+  const now = opts?.now ?? Date.now();
+  return Array.from(windows.values())
+    .filter((w) => !opts?.phoneId || w.phoneId === opts.phoneId)
+    .map((w) => evaluateServiceWindow({ phoneId: w.phoneId, waId: w.waId, now }));
+};
+
+/**
+ * Manually opens, extends or backdates a window, e.g. to test sends right
+ * before or after the 24h boundary without waiting.
+ */
+export const overrideServiceWindow = (params: {
+  phoneId: string;
+  waId: string;
+  lastInboundAt?: number;
+  expiresAt?: number;
+  now?: number;
+}): CustomerServiceWindow => {
+  const now = params.now ?? Date.now();
+  const lastInboundAt = params.lastInboundAt ?? now;
+  const key = getWindowKey(params.phoneId, params.waId);
+  const window = carryFreeEntryPoint(
+    {
+      phoneId: params.phoneId,
+      waId: params.waId,
+      lastInboundAt,
+      expiresAt: params.expiresAt ?? lastInboundAt + SERVICE_WINDOW_MS,
+      source: "override",
+      updatedAt: now,
+    },
+    windows.get(key)
+  );
+  windows.set(key, window);
+  return window;
+};
+
+export const closeServiceWindow = (phoneId: string, waId: string): boolean =>
+  windows.delete(getWindowKey(phoneId, waId));
@@ -0,0 +1,118 @@
+export type StatusLifecycleOutcome = "delivered" | "read" | "failed";
+
+export interface StatusLifecycleFailure {
+  code: number;
+  title: string;
+  message: string;
+  details: string;
+}
+
+export interface StatusLifecycleConfig {
+  phoneId: string;
+  enabled: boolean;
+  /** Delay between the /messages call and the `sent` webhook */
+  sentDelayMs: number;
+  /** Delay between `sent` and `delivered` (or `failed`) */
+  deliveredDelayMs: number;
+  /** Delay between `delivered` and `read` */
+  readDelayMs: number;
+  /** Last status the lifecycle reaches */
+  outcome: StatusLifecycleOutcome;
+  failure: StatusLifecycleFailure;
+}
+
+const DEFAULT_FAILURE: StatusLifecycleFailure = {
+  code: 131026,
+  title: "Message undeliverable",
+  message: "Message undeliverable",
+  details: "Message could not be delivered to the recipient (sandbox).",
+};
+
+const configs = new Map<string, StatusLifecycleConfig>();
+
+const clampDelay = (value: unknown, fallback: number): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.max(0, Math.floor(value));
+};
+
+export const getStatusLifecycleConfig = (
+  phoneId: string
+): StatusLifecycleConfig => {
+  const existing = configs.get(phoneId);
+  if (existing) return existing;
+
+  const fresh: StatusLifecycleConfig = {
+    phoneId,
+    // Opt-in, so sends only get the status webhooks a client asked for
+    enabled: false,
+    sentDelayMs: 500,
+    deliveredDelayMs: 1500,
+    readDelayMs: 3000,
+    outcome: "read",
+    failure: { ...DEFAULT_FAILURE },
+  };
+  configs.set(phoneId, fresh);
+  return fresh;
+};
+
+/** Reads the flag without creating a config for the phone */
+export const isStatusLifecycleEnabled = (phoneId: string): boolean =>
+  configs.get(phoneId)?.enabled ?? false;
+
+export const listStatusLifecycleConfigs = (): StatusLifecycleConfig[] =>
+  Array.from(configs.values());
+
+export const updateStatusLifecycleConfig = (
+  phoneId: string,
+  patch: Partial<{
+    enabled: boolean;
+    sentDelayMs: number;
+    deliveredDelayMs: number;
+    readDelayMs: number;
+    outcome: StatusLifecycleOutcome;
+    failure: Partial<StatusLifecycleFailure>;
+  }>
+): StatusLifecycleConfig => {
+  const config = getStatusLifecycleConfig(phoneId);
+
+  if (typeof patch.enabled === "boolean") {
+    config.enabled = patch.enabled;
+  }
+  if (patch.sentDelayMs !== undefined) {
+    config.sentDelayMs = clampDelay(patch.sentDelayMs, config.sentDelayMs);
+  }
+  if (patch.deliveredDelayMs !== undefined) {
+    config.deliveredDelayMs = clampDelay(
+      patch.deliveredDelayMs,
+      config.deliveredDelayMs
+    );
+  }
+  if (patch.readDelayMs !== undefined) {
+    config.readDelayMs = clampDelay(patch.readDelayMs, config.readDelayMs);
+  }
+  if (
+    patch.outcome === "delivered" ||
+    patch.outcome === "read" ||
+    patch.outcome === "failed"
+  ) {
+    config.outcome = patch.outcome;
+  }
+  if (patch.failure && typeof patch.failure === "object") {
+    const failure = patch.failure;
+    if (typeof failure.code === "number") {
+      config.failure.code = failure.code;
+    }
+    if (typeof failure.title === "string" && failure.title) {
+      config.failure.title = failure.title;
+    }
+    if (typeof failure.message === "string" && failure.message) {
+      config.failure.message = failure.message;
+    }
+    if (typeof failure.details === "string" && failure.details) {
+      config.failure.details = failure.details;
+    }
+  }
+
+  configs.set(phoneId, config);
+  return config;
+};
@@ -0,0 +1,116 @@
+export type TemplateFeedbackType = "block" | "report";
+
+export interface TemplateFeedbackRecord {
+  templateId: string;
+  /** Sends of the template through /messages since the last unpause */
+  sends: number;
+  blocks: number;
+  reports: number;
+  /** Number of times low quality paused the template */
+  pauseCount: number;
+  pausedUntil?: number;
+  updatedAt: number;
+}
+
+export interface TemplateQualityConfig {
+  /** Negative feedback rate ((blocks + reports) / sends) that turns YELLOW */
+  yellowRate: number;
+  /** Negative feedback rate that turns RED */
+  redRate: number;
+  /** Pause APPROVED templates when quality turns RED */
+  autoPause: boolean;
+  /** Duration of the first and second pause; the third low rating disables */
+  pauseDurationsMs: [number, number];
+}
+
+const config: TemplateQualityConfig = {
+  yellowRate: 0.05,
+  redRate: 0.1,
+  autoPause: true,
+  pauseDurationsMs: [3 * 60 * 60 * 1000, 6 * 60 * 60 * 1000],
+};
+
+const records = new Map<string, TemplateFeedbackRecord>();
+
+export const getTemplateQualityConfig = (): TemplateQualityConfig => config;
+
+export const updateTemplateQualityConfig = (
+  patch: Partial<{
+    yellowRate: number;
+    redRate: number;
+    autoPause: boolean;
+    pauseDurationsMs: number[];
+  }>
+): TemplateQualityConfig => {
+  if (typeof patch.yellowRate === "number" && patch.yellowRate >= 0) {
+    config.yellowRate = patch.yellowRate;
+  }
+  if (typeof patch.redRate === "number" && patch.redRate >= 0) {
+    config.redRate = patch.redRate;
+  }
+  if (typeof patch.autoPause === "boolean") {
+    config.autoPause = patch.autoPause;
+  }
+  if (Array.isArray(patch.pauseDurationsMs)) {
+    const [first, second] = patch.pauseDurationsMs;
+    if (typeof first === "number" && first >= 0) {
+      config.pauseDurationsMs[0] = Math.floor(first);
+    }
+    if (typeof second === "number" && second >= 0) {
+      config.pauseDurationsMs[1] = Math.floor(second);
+    }
+  }
+  return config;
+};
+
+export const getTemplateFeedback = (
+  templateId: string
+): TemplateFeedbackRecord => {
+  const existing = records.get(templateId);
+  if (existing) return existing;
+
+  const fresh: TemplateFeedbackRecord = {
+    templateId,
+    sends: 0,
+    blocks: 0,
+    reports: 0,
+    pauseCount: 0,
+    updatedAt: Date.now(),
+  };
+  records.set(templateId, fresh);
+  return fresh;
+};
+
+export const recordTemplateSend = (
+  templateId: string
+): TemplateFeedbackRecord => {
+  const record = getTemplateFeedback(templateId);
+  record.sends += 1;
+  record.updatedAt = Date.now();
+  return record;
+};
+
+export const recordTemplateFeedback = (
+  templateId: string,
+  type: TemplateFeedbackType,
+  count = 1
+): TemplateFeedbackRecord => {
+  const record = getTemplateFeedback(templateId);
+  if (type === "block") {
+    record.blocks += count;
+  } else {
+    record.reports += count;
+  }
+  record.updatedAt = Date.now();
+  return record;
+};
+
+/** Starts a fresh feedback sample, e.g. after a pause ends */
+export const resetTemplateFeedbackSample = (templateId: string): void => {
+  const record = getTemplateFeedback(templateId);
+  record.sends = 0;
+  record.blocks = 0;
+  record.reports = 0;
+  delete record.pausedUntil;
+  record.updatedAt = Date.now();
+};
@@ -0,0 +1,66 @@
+export type TemplateLintRuleId =
+  | "name_format"
+  | "variable_at_edges"
+  | "adjacent_variables"
+  | "variable_sequence"
+  | "too_many_buttons"
+  | "length_limits"
+  | "missing_examples";
+
+export const TEMPLATE_LINT_RULE_IDS: TemplateLintRuleId[] = [
+  "name_format",
+  "variable_at_edges",
+  "adjacent_variables",
+  "variable_sequence",
+  "too_many_buttons",
+  "length_limits",
+  "missing_examples",
+];
+
+export interface TemplateReviewConfig {
+  /** When false, new templates stay PENDING until updated manually */
+  enabled: boolean;
+  /** Delay between creation and the APPROVED/REJECTED decision */
+  delayMs: number;
+  rules: Record<TemplateLintRuleId, boolean>;
+}
+
+const config: TemplateReviewConfig = {
+  enabled: true,
+  delayMs: 5000,
+  rules: {
+    name_format: true,
+    variable_at_edges: true,
+    adjacent_variables: true,
+    variable_sequence: true,
+    too_many_buttons: true,
+    length_limits: true,
+    missing_examples: true,
+  },
+};
+
+export const getTemplateReviewConfig = (): TemplateReviewConfig => config;
+
+export const updateTemplateReviewConfig = (
+  patch: Partial<{
+    enabled: boolean;
+    delayMs: number;
+    rules: Partial<Record<TemplateLintRuleId, boolean>>;
+  }>
+): TemplateReviewConfig => {
+  if (typeof patch.enabled === "boolean") {
+    config.enabled = patch.enabled;
+  }
+  if (typeof patch.delayMs === "number" && Number.isFinite(patch.delayMs)) {
+    config.delayMs = Math.max(0, Math.floor(patch.delayMs));
+  }
+  if (patch.rules && typeof patch.rules === "object") {
+    for (const ruleId of TEMPLATE_LINT_RULE_IDS) {
+      const value = patch.rules[ruleId];
+      if (typeof value === "boolean") {
+        config.rules[ruleId] = value;
+      }
+    }
+  }
+  return config;
+};
@@ -12,14 +12,35 @@ export type TemplateStatus =
   | "DISABLED"
   | "PAUSED";
 
+export type TemplateQualityScore = "GREEN" | "YELLOW" | "RED" | "UNKNOWN";
+
 export type TemplateRejectionReason =
+  | "ABUSIVE_CONTENT"
+  | "INCORRECT_CATEGORY"
+  | "INVALID_FORMAT"
+  | "PROMOTIONAL"
+  | "SCAM"
+  | "TAG_CONTENT_MISMATCH"
   | "POLICY"
   | "SPAM"
   | "TRADEMARK"
-  | "INCORRECT_FORMAT"
   | "PROHIBITED_CONTENT"
   | "OTHER";
 
+export const TEMPLATE_REJECTION_REASONS: TemplateRejectionReason[] = [
+  "ABUSIVE_CONTENT",
+  "INCORRECT_CATEGORY",
+  "INVALID_FORMAT",
+  "PROMOTIONAL",
+  "SCAM",
+  "TAG_CONTENT_MISMATCH",
+  "POLICY",
+  "SPAM",
+  "TRADEMARK",
+  "PROHIBITED_CONTENT",
+  "OTHER",
+];
+
 export type TemplateButtonType =
   | "QUICK_REPLY"
   | "URL"
@@ -39,6 +60,9 @@ export interface TemplateComponentExample {
   body_text?: Array<string> | Array<Array<string>>;
   footer_text?: string[];
   button_text?: Array<Array<string>>;
+  header_handle?: string[];
+  header_text_named_params?: Array<{ param_name: string; example: string }>;
+  body_text_named_params?: Array<{ param_name: string; example: string }>;
   [key: string]: unknown;
 }
 
@@ -63,6 +87,11 @@ export interface TemplateStatusAudit {
   updatedAt: number;
 }
 
+export interface TemplateQuality {
+  score: TemplateQualityScore;
+  updatedAt: number;
+}
+
 export interface MessageTemplate {
   id: string;
   name: string;
@@ -81,6 +110,7 @@ export interface MessageTemplate {
   statusHistory: TemplateStatusAudit[];
   rejectionReason?: TemplateRejectionReason | undefined;
   rejectionNote?: string | undefined;
+  quality?: TemplateQuality;
   createdAt: number;
   updatedAt: number;
 }
@@ -130,21 +160,64 @@ export const normalizeTemplateRejectionReason = (
 ): TemplateRejectionReason | undefined => {
   if (typeof reason !== "string") return undefined;
   const upper = reason.toUpperCase();
-  if (
-    upper === "POLICY" ||
-    upper === "SPAM" ||
-    upper === "TRADEMARK" ||
-    upper === "INCORRECT_FORMAT" ||
-    upper === "PROHIBITED_CONTENT" ||
-    upper === "OTHER"
-  ) {
-    return upper;
-  }
-  return "OTHER";
+  return TEMPLATE_REJECTION_REASONS.includes(upper as TemplateRejectionReason)
+    ? (upper as TemplateRejectionReason)
+    : "OTHER";
 };
 
 const templates = new Map<string, MessageTemplate>();
 
+export interface TemplateStatusChange {
+  kind: "status";
+  template: MessageTemplate;
+  previousStatus: TemplateStatus;
+  status: TemplateStatus;
+  reason?: TemplateRejectionReason | undefined;
+  note?: string | undefined;
+}
+
+export interface TemplateCategoryChange {
+  kind: "category";
+  template: MessageTemplate;
+  previousCategory: TemplateCategory;
+  category: TemplateCategory;
+}
+
+export interface TemplateQualityChange {
+  kind: "quality";
+  template: MessageTemplate;
+  previousScore: TemplateQualityScore;
+  score: TemplateQualityScore;
+}
+
+export type TemplateChange =
+  | TemplateStatusChange
+  | TemplateCategoryChange
+  | TemplateQualityChange;
+
+type TemplateChangeSubscriber = (change: TemplateChange) => void;
+
+const changeSubscribers = new Set<TemplateChangeSubscriber>();
+
+export const subscribeTemplateChanges = (
+  subscriber: TemplateChangeSubscriber
+): (() => void) => {
+  changeSubscribers.add(subscriber);
+  return () => {
+    changeSubscribers.delete(subscriber);
+  };
+};
+
+const notifyChange = (change: TemplateChange): void => {
+  for (const subscriber of changeSubscribers) {
+    try {
+      subscriber(change);
+    } catch {
+      // ignore subscriber errors
+    }
+  }
+};
+
 const buildComponentsFromText = (
   bodyText?: string,
   headerText?: string,
@@ -374,6 +447,8 @@ export const updateTemplate = (
   const existing = templates.get(id);
   if (!existing) return undefined;
   ensureTemplateShape(existing);
+  const previousStatus = existing.status;
+  const previousCategory = existing.category;
 
   if (typeof patch.name === "string") {
     existing.name = patch.name;
@@ -457,6 +532,27 @@ export const updateTemplate = (
 
   existing.updatedAt = Date.now();
   templates.set(id, existing);
+
+  if (existing.category !== previousCategory) {
+    notifyChange({
+      kind: "category",
+      template: existing,
+      previousCategory,
+      category: existing.category,
+    });
+  }
+  if (existing.status !== previousStatus) {
+    notifyChange({
+      kind: "status",
+      template: existing,
+      previousStatus,
+      status: existing.status,
+      reason:
+        existing.status === "REJECTED" ? existing.rejectionReason : undefined,
+      note: existing.statusHistory[existing.statusHistory.length - 1]?.note,
+    });
+  }
+
   return existing;
 };
 
@@ -486,5 +582,30 @@ export const updateTemplateStatus = (
   return updateTemplate(id, patch);
 };
 
+export const updateTemplateQuality = (
+  id: string,
+  score: TemplateQualityScore
+): MessageTemplate | undefined => {
+  const existing = templates.get(id);
+  if (!existing) return undefined;
+
+  const previousScore = existing.quality?.score ?? "UNKNOWN";
+  const now = Date.now();
+  existing.quality = { score, updatedAt: now };
+  existing.updatedAt = now;
+  templates.set(id, existing);
+
+  if (score !== previousScore) {
+    notifyChange({
+      kind: "quality",
+      template: existing,
+      previousScore,
+      score,
+    });
+  }
+
+  return existing;
+};
+
 export const deleteTemplate = (id: string): boolean =>
   templates.delete(id);
@@ -172,6 +172,17 @@ export const getPhoneNumber = (
   id: string
 ): PhoneNumberConfig | undefined => phoneNumbers.get(id);
 
+export const setPhoneQualityRating = (
+  id: string,
+  rating: PhoneQualityRating
+): PhoneNumberConfig | undefined => {
+  const phone = phoneNumbers.get(id);
+  if (!phone) return undefined;
+  phone.qualityRating = rating;
+  phoneNumbers.set(phone.id, phone);
+  return phone;
+};
+
 export const requestPhoneVerificationCode = (params: {
   id: string;
   method: "SMS" | "VOICE";
@@ -285,11 +296,14 @@ export const resolveWebhookTarget = (opts: {
   }
 
   if (config.targetWebhookUrl) {
-    return {
+    const result: ResolvedWebhookTarget = {
       url: config.targetWebhookUrl,
       source: "app",
-      appSecret: config.webhookAppSecret || undefined,
     };
+    if (config.webhookAppSecret) {
+      result.appSecret = config.webhookAppSecret;
+    }
+    return result;
   }
 
   return null;
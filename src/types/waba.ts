@@ -1,7 +1,23 @@
+/** Click-to-WhatsApp ad or post the user came from */
+export interface WabaReferral {
+  source_url: string;
+  source_id: string;
+  source_type: "ad" | "post";
+  headline?: string;
+  body?: string;
+  media_type?: "image" | "video";
+  image_url?: string;
+  video_url?: string;
+  thumbnail_url?: string;
+  /** Click ID for conversion attribution */
+  ctwa_clid?: string;
+}
+
 export type WabaMessageBase = {
   from: string;
   id: string;
   timestamp: string;
+  referral?: WabaReferral;
 };
 
 export interface WabaTextMessage extends WabaMessageBase {
@@ -133,7 +149,8 @@ export interface WabaInteractiveMessage extends WabaMessageBase {
       | "product_list"
       | "product"
       | "media"
-      | "flow";
+      | "flow"
+      | "nfm_reply";
     button_reply?: {
       id: string;
       title: string;
@@ -151,10 +168,38 @@ export interface WabaInteractiveMessage extends WabaMessageBase {
     flow_cta?: string;
     flow_status?: string;
     flow_name?: string;
+    /** Flow completion as delivered by the Cloud API */
+    nfm_reply?: {
+      name: "flow";
+      body: string;
+      /** JSON string with `flow_token` and the values the user submitted */
+      response_json: string;
+    };
     [key: string]: unknown;
   };
 }
 
+export interface WabaOrderProductItem {
+  product_retailer_id: string;
+  quantity: number;
+  item_price: number;
+  currency: string;
+}
+
+/** Cart sent by the customer from a catalog or product message */
+export interface WabaOrderMessage extends WabaMessageBase {
+  type: "order";
+  order: {
+    catalog_id: string;
+    text?: string;
+    product_items: WabaOrderProductItem[];
+  };
+  context?: {
+    from: string;
+    id: string;
+  };
+}
+
 export type WabaMessage =
   | WabaTextMessage
   | WabaImageMessage
@@ -166,7 +211,67 @@ export type WabaMessage =
   | WabaContactsMessage
   | WabaReactionMessage
   | WabaTemplateMessage
-  | WabaInteractiveMessage;
+  | WabaInteractiveMessage
+  | WabaOrderMessage;
+
+export interface WabaStatusError {
+  code: number;
+  title: string;
+  message?: string;
+  error_data?: {
+    details: string;
+  };
+}
+
+export interface WabaStatusConversation {
+  id: string;
+  expiration_timestamp?: string;
+  origin: {
+    type: string;
+  };
+}
+
+export interface WabaStatusPricing {
+  billable: boolean;
+  pricing_model: string;
+  category: string;
+  type?: string;
+}
+
+/** Payment details carried by `type: "payment"` status webhooks */
+export interface WabaPaymentStatusDetails {
+  reference_id: string;
+  amount: { value: number; offset: number };
+  currency: string;
+  transaction: {
+    id: string;
+    type: string;
+    status: "success" | "pending" | "failed";
+    created_timestamp: number;
+    updated_timestamp: number;
+    method?: { type: string };
+    error?: { code: string; reason: string };
+  };
+}
+
+export interface WabaStatus {
+  id: string;
+  status:
+    | "sent"
+    | "delivered"
+    | "read"
+    | "failed"
+    | "typing"
+    | "captured"
+    | "pending";
+  timestamp: string;
+  recipient_id: string;
+  type?: "payment";
+  payment?: WabaPaymentStatusDetails;
+  conversation?: WabaStatusConversation;
+  pricing?: WabaStatusPricing;
+  errors?: WabaStatusError[];
+}
 
 export interface WabaWebhookEntry {
   id: string;
@@ -182,12 +287,7 @@ export interface WabaWebhookEntry {
         wa_id: string;
       }>;
       messages?: WabaMessage[];
-      statuses?: Array<{
-        id: string;
-        status: "sent" | "delivered" | "read" | "failed" | "typing";
-        timestamp: string;
-        recipient_id: string;
-      }>;
+      statuses?: WabaStatus[];
     };
     field: "messages";
   }>;
@@ -197,3 +297,73 @@ export interface WabaWebhookPayload {
   object: "whatsapp_business_account";
   entry: WabaWebhookEntry[];
 }
+
+/**
+ * Account-level change (template reviews, quality updates, …) delivered under
+ * the same `whatsapp_business_account` object as message webhooks.
+ */
+export interface WabaAccountChange<
+  TField extends string = string,
+  TValue = Record<string, unknown>
+> {
+  field: TField;
+  value: TValue;
+}
+
+export interface WabaTemplateStatusUpdateValue {
+  event: string;
+  message_template_id: string;
+  message_template_name: string;
+  message_template_language: string;
+  reason: string;
+  other_info?: { title: string; description: string };
+}
+
+export interface WabaAccountWebhookPayload {
+  object: "whatsapp_business_account";
+  entry: Array<{
+    id: string;
+    time: number;
+    changes: WabaAccountChange[];
+  }>;
+}
+
+/** Entry of a `calls` webhook: a signaling event for one call */
+export interface WabaCallEvent {
+  id: string;
+  to: string;
+  from: string;
+  event: "connect" | "terminate";
+  timestamp: string;
+  direction: "USER_INITIATED" | "BUSINESS_INITIATED";
+  session?: { sdp_type: "offer" | "answer"; sdp: string };
+  status?: "COMPLETED" | "FAILED";
+  start_time?: string;
+  end_time?: string;
+  duration?: number;
+  biz_opaque_callback_data?: string;
+}
+
+/** Progress of a business-initiated call, delivered under `calls` */
+export interface WabaCallStatus {
+  id: string;
+  type: "call";
+  status: "RINGING" | "ACCEPTED" | "REJECTED";
+  timestamp: string;
+  recipient_id: string;
+  biz_opaque_callback_data?: string;
+}
+
+export interface WabaCallsWebhookValue {
+  messaging_product: "whatsapp";
+  metadata: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  contacts?: Array<{
+    profile: { name: string };
+    wa_id: string;
+  }>;
+  calls?: WabaCallEvent[];
+  statuses?: WabaCallStatus[];
+}